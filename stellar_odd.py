@@ -290,6 +290,12 @@ def cmd_snapshot_api(args):
     con.execute("""CREATE TABLE IF NOT EXISTS mad_api_history(
         captured_at TIMESTAMP, ecosystem VARCHAR, day DATE, total INTEGER,
         single_chain INTEGER, multi_chain INTEGER, PRIMARY KEY (ecosystem, day))""")
+    # mad_api_history keeps only the latest value per point; mad_api_revisions keeps every
+    # value a point has had, so the dashboard can show how the API restates its weeks.
+    con.execute("""CREATE TABLE IF NOT EXISTS mad_api_revisions(
+        captured_at TIMESTAMP, ecosystem VARCHAR, day DATE, total INTEGER,
+        single_chain INTEGER, multi_chain INTEGER)""")
+    log_api_revisions(con)  # the previous capture, on the first run after an upgrade
     n = 0
     for ts, row in by_ts.items():
         d = time.strftime("%Y-%m-%d", time.gmtime(ts/1000))
@@ -300,8 +306,24 @@ def cmd_snapshot_api(args):
             [args.ecosystem, d, row.get("Total monthly active developers"),
              row.get("Single-chain developers"), row.get("Multi-chain developers")])
         n += 1
+    revised = log_api_revisions(con)
     con.close()
-    print(f"Upserted {n} API points into {args.db} (table mad_api_history).")
+    print(f"Upserted {n} API points into {args.db} (table mad_api_history); "
+          f"{revised} new or changed (table mad_api_revisions).")
+
+
+def log_api_revisions(con) -> int:
+    """Append each mad_api_history point whose values differ from its last logged revision
+    (or that has none yet). Returns how many rows were appended."""
+    return con.execute("""INSERT INTO mad_api_revisions
+        SELECT h.* FROM mad_api_history h
+        LEFT JOIN (SELECT ecosystem, day, arg_max(total, captured_at) AS total,
+                          arg_max(single_chain, captured_at) AS single_chain,
+                          arg_max(multi_chain, captured_at) AS multi_chain
+                   FROM mad_api_revisions GROUP BY 1, 2) r USING (ecosystem, day)
+        WHERE r.day IS NULL OR h.total IS DISTINCT FROM r.total
+           OR h.single_chain IS DISTINCT FROM r.single_chain
+           OR h.multi_chain IS DISTINCT FROM r.multi_chain""").fetchone()[0]
 
 
 # --------------------------------------------------------------------------- events (events.json)
@@ -6,6 +6,9 @@ const KNOWN: Record<string, string> = {
     GrantFox: '#b58cff',
     'Stellar Hacks': '#c85c14',
 };
+/** Partners with their own color; the event editor accepts these plus any already in
+ *  events.json, so a typo can't quietly start a new partner group. */
+export const KNOWN_PARTNERS = Object.keys(KNOWN);
 const FALLBACK = ['#7ec97e', '#e8a85a', '#e0738d', '#5fd4d0', '#b58cff', '#6f8fff'];
 
 export function partnerColor(partner: string): string {
@@ -14,3 +17,13 @@ export function partnerColor(partner: string): string {
     for (let i = 0; i < partner.length; i++) h = (h * 31 + partner.charCodeAt(i)) >>> 0;
     return FALLBACK[h % FALLBACK.length];
 }
+
+// Org / group comparison lines on the main chart: hashed like partners, but from a
+// palette that avoids the MAD series' own amber/cyan/rose.
+const ROLLUP = ['#7ec97e', '#6f8fff', '#b58cff', '#9fb0d0', '#e8a85a', '#c9c96a', '#e07bd0'];
+
+export function rollupColor(key: string): string {
+    let h = 0;
+    for (let i = 0; i < key.length; i++) h = (h * 31 + key.charCodeAt(i)) >>> 0;
+    return ROLLUP[h % ROLLUP.length];
+}
@@ -14,3 +14,32 @@ export const weekday = (day: string): string => {
     const [y, m, d] = day.split('-').map(Number);
     return WEEKDAYS[new Date(Date.UTC(y, m - 1, d)).getUTCDay()];
 };
+
+/** URL slug for a timeline event — partner + title, e.g. "drips-wave-4". */
+export const eventSlug = (e: { partner: string; title: string }): string =>
+    `${e.partner} ${e.title}`
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-|-$/g, '');
+
+/** Calendar UID for a timeline event: the slug, or the old one it kept through a rename. */
+export const eventUid = (e: { partner: string; title: string; uid?: string }): string =>
+    e.uid ?? eventSlug(e);
+
+/** ISO day `n` days after `day` (negative = before), in UTC so it never drifts. */
+export const shiftDay = (day: string, n: number): string => {
+    const [y, m, d] = day.split('-').map(Number);
+    return new Date(Date.UTC(y, m - 1, d) + n * 86400000).toISOString().slice(0, 10);
+};
+
+/** Is `s` a real yyyy-mm-dd calendar day? The shape alone lets 2026-02-30 through, and
+ *  2026-13-01 doesn't parse at all. */
+export const isDay = (s: unknown): s is string => {
+    if (typeof s !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(s)) return false;
+    const t = Date.parse(`${s}T00:00:00Z`);
+    return !Number.isNaN(t) && new Date(t).toISOString().slice(0, 10) === s;
+};
+
+/** "▼ 22%" / "▲ 14%" for a detected level shift. */
+export const shiftLabel = (c: { direction: 'drop' | 'rise'; change: number }): string =>
+    `${c.direction === 'drop' ? '▼' : '▲'} ${Math.round(Math.abs(c.change) * 100)}%`;
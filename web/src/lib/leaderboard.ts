@@ -0,0 +1,104 @@
+// Repo leaderboard ranking, shared by the table and its export so a download lists the
+// same repos in the same order as the screen.
+import type { RepoAgg, RepoHealth } from '$lib/types';
+
+/** Absolute modes rank by size; the momentum ones compare a window with the one before. */
+export const REPO_MODES = ['devs', 'commits', 'rising', 'falling', 'new', 'quiet'] as const;
+export type RepoBy = (typeof REPO_MODES)[number];
+
+/** Health columns the table can be re-sorted by, each starting from its riskiest end. */
+export const HEALTH_SORTS = {
+    bus_factor: 'asc',
+    top_share: 'desc',
+    hhi: 'desc',
+    retention: 'asc',
+    idle_days: 'desc',
+} as const;
+export type HealthSort = keyof typeof HEALTH_SORTS;
+
+export interface RankedRepo {
+    repo: string;
+    url: string;
+    devs: number;
+    commits: number;
+    /** Devs in the equal-length window just before this one. */
+    prior_devs: number;
+    change: number;
+    last_active_day: string;
+    excluded: string | null;
+    spark: number[];
+    /** The window's RepoHealth fields, null where it had no commits. */
+    bus_factor: number | null;
+    top_share: number | null;
+    hhi: number | null;
+    retention: number | null;
+    idle_days: number;
+}
+
+const NO_HEALTH: Record<keyof RepoHealth, null> = {
+    bus_factor: null,
+    top_share: null,
+    hhi: null,
+    retention: null,
+};
+
+/** Rows for one window in `by` order; `sort` then re-orders them by a health column
+ *  (`desc` flips its default direction), repos without a value for it last. */
+export function rankRepos(
+    repos: RepoAgg[],
+    win: number,
+    by: RepoBy,
+    sort: HealthSort | null = null,
+    flip = false,
+): RankedRepo[] {
+    const pick = (r: RepoAgg) =>
+        win === 28
+            ? { devs: r.d28, commits: r.c28, prior_devs: r.p28, health: r.h28 }
+            : win === 60
+              ? { devs: r.d60, commits: r.c60, prior_devs: r.p60, health: r.h60 }
+              : { devs: r.d90, commits: r.c90, prior_devs: r.p90, health: r.h90 };
+    const rows = repos.map((r) => {
+        const { health, ...w } = pick(r);
+        return {
+            repo: r.repo,
+            url: r.url,
+            ...w,
+            change: w.devs - w.prior_devs,
+            last_active_day: r.last_active_day,
+            excluded: r.excluded,
+            spark: r.spark,
+            ...(health ?? NO_HEALTH),
+            // a repo that went quiet still has a retention: none of its devs came back
+            retention: health?.retention ?? (w.prior_devs ? 0 : null),
+            idle_days: r.idle_days,
+        };
+    });
+    const keep: Record<RepoBy, (r: RankedRepo) => boolean> = {
+        devs: (r) => r.devs > 0,
+        commits: (r) => r.devs > 0,
+        rising: (r) => r.change > 0,
+        falling: (r) => r.change < 0,
+        // nobody in the window before: new repos and ones back from a long pause
+        new: (r) => r.devs > 0 && r.prior_devs === 0,
+        // the Python diagnose's "drove a period then went silent"
+        quiet: (r) => r.devs === 0 && r.prior_devs > 0,
+    };
+    const order: Record<RepoBy, (a: RankedRepo, b: RankedRepo) => number> = {
+        devs: (a, b) => b.devs - a.devs,
+        commits: (a, b) => b.commits - a.commits,
+        rising: (a, b) => b.change - a.change || b.devs - a.devs,
+        falling: (a, b) => a.change - b.change || b.prior_devs - a.prior_devs,
+        new: (a, b) => b.devs - a.devs || b.commits - a.commits,
+        quiet: (a, b) => b.prior_devs - a.prior_devs,
+    };
+    const ranked = rows.filter(keep[by]).sort(order[by]);
+    if (!sort) return ranked;
+    const dir = (HEALTH_SORTS[sort] === 'asc' ? 1 : -1) * (flip ? -1 : 1);
+    // stable sort: ties keep the mode's order
+    return ranked.sort((a, b) => {
+        const x = a[sort];
+        const y = b[sort];
+        if (x == null || y == null) return x == null ? (y == null ? 0 : 1) : -1;
+        return (x - y) * dir;
+    });
+}
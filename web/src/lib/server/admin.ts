@@ -0,0 +1,25 @@
+// Write access for the few endpoints that change files (e.g. /api/events). One shared
+// secret, ADMIN_TOKEN, sent as `Authorization: Bearer <token>`; unset means read-only.
+import { timingSafeEqual } from 'node:crypto';
+import { error } from '@sveltejs/kit';
+import { env } from '$env/dynamic/private';
+
+export const adminEnabled = () => !!env.ADMIN_TOKEN;
+
+/** Throws 403 when writes are disabled, 401 on a missing or wrong token. */
+export function requireAdmin(request: Request): void {
+    const want = env.ADMIN_TOKEN;
+    if (!want) throw error(403, 'Editing is disabled: set ADMIN_TOKEN on the server.');
+    const got = /^Bearer (.+)$/i.exec(request.headers.get('authorization') ?? '')?.[1] ?? '';
+    const a = Buffer.from(got);
+    const b = Buffer.from(want);
+    if (a.length !== b.length || !timingSafeEqual(a, b))
+        throw error(401, 'Wrong or missing token.');
+}
+
+/** The version a write was based on (If-Match, quotes optional); 428 without one. */
+export function ifMatch(request: Request): string {
+    const v = request.headers.get('if-match')?.replace(/^W\//, '').replaceAll('"', '').trim();
+    if (!v) throw error(428, 'Send If-Match with the version you loaded.');
+    return v;
+}
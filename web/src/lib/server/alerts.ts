@@ -0,0 +1,65 @@
+// Atom (RFC 4287) feed of detected level shifts, for a chat integration or feed reader
+// to poll. Entry ids come from the shift itself (start day, direction, series), so a
+// shift keeps its id as later data arrives and a poller announces it once.
+import { fmt, shiftDay, shiftLabel } from '$lib/format';
+import type { ChangePoint } from '$lib/types';
+
+const FEED_SIZE = 30;
+
+const SERIES: Record<ChangePoint['series'], string> = {
+    official: 'MAD',
+    clean: 'Clean MAD',
+    both: 'MAD (official and clean)',
+};
+
+const xml = (s: string) =>
+    s
+        .replaceAll('&', '&amp;')
+        .replaceAll('<', '&lt;')
+        .replaceAll('>', '&gt;')
+        .replaceAll('"', '&quot;');
+
+/** The feed, newest shift first. `origin` makes links absolute (feed readers need it). */
+export function toAtom(changes: ChangePoint[], origin: string): string {
+    const recent = changes.slice(-FEED_SIZE).reverse();
+    const self = `${origin}/api/alerts.xml`;
+    const entries = recent.map((c) => {
+        const link = `${origin}/compare/${shiftDay(c.start, -1)}/${c.through}`;
+        const verb = c.direction === 'drop' ? 'fell' : 'rose';
+        return [
+            '  <entry>',
+            `    <id>urn:stellar-odd:shift:${c.start}:${c.direction}${c.series === 'clean' ? ':clean' : ''}</id>`,
+            `    <title>${xml(`${shiftLabel(c)} ${SERIES[c.series]} since ${c.start}: ${fmt(c.before)} → ${fmt(c.after)}`)}</title>`,
+            // published when first flagged; updated as a shift that keeps moving extends
+            `    <published>${c.day}T00:00:00Z</published>`,
+            `    <updated>${c.through}T00:00:00Z</updated>`,
+            `    <link rel="alternate" href="${xml(link)}"/>`,
+            `    <summary>${xml(
+                `The 28-day ${SERIES[c.series]} ${verb} from ${fmt(c.before)} to ${fmt(c.after)} ` +
+                    `developers between ${c.start} and ${c.through}; flagged on ${c.day}. ` +
+                    `Who entered and left the window: ${link}`,
+            )}</summary>`,
+            '  </entry>',
+        ].join('\n');
+    });
+    return [
+        '<?xml version="1.0" encoding="utf-8"?>',
+        '<feed xmlns="http://www.w3.org/2005/Atom">',
+        `  <id>${xml(self)}</id>`,
+        '  <title>Stellar MAD alerts</title>',
+        '  <subtitle>Sustained drops and rises in the 28-day monthly active developers</subtitle>',
+        // the latest shift update, not the clock: the feed only changes when there's news
+        `  <updated>${
+            recent
+                .map((c) => c.through)
+                .sort()
+                .pop() ?? '1970-01-01'
+        }T00:00:00Z</updated>`,
+        '  <author><name>stellar-odd</name></author>',
+        `  <link rel="self" href="${xml(self)}"/>`,
+        `  <link rel="alternate" href="${xml(`${origin}/`)}"/>`,
+        ...entries,
+        '</feed>',
+        '',
+    ].join('\n');
+}
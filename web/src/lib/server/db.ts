@@ -1,17 +1,138 @@
 // Server-only DuckDB access layer. Reads the extract produced by stellar_odd.py.
 // Opens READ_ONLY so a scheduled `extract` re-run won't lock against the app.
+import { mkdtemp, readdir, readFile, rm, stat, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { basename, join, resolve } from 'node:path';
 import { DuckDBInstance, type DuckDBConnection } from '@duckdb/node-api';
 import { env } from '$env/dynamic/private';
-import type { Meta } from '$lib/types';
+import type { CompareFile, DbStatus, Meta } from '$lib/types';
 
 const DB_PATH = env.STELLAR_DB || './stellar_extract.duckdb';
+// An archived extract to diff the loaded one against (/restatements): one file, or a
+// directory of them (`stellar_extract-<snapshot>.duckdb`, say) to pick from.
+const COMPARE_PATH = env.STELLAR_DB_COMPARE || '';
 
-let _conn: DuckDBConnection | null = null;
-async function conn(): Promise<DuckDBConnection> {
-    if (_conn) return _conn;
+// Hot reload. When the extract is replaced (new inode, mtime or size), a fresh READ_ONLY
+// instance is opened and has to answer `SELECT * FROM meta` before it becomes current —
+// a half-written file just fails that and is retried on a later check. The file is
+// stat'ed at most every CHECK_MS, and a change younger than SETTLE_MS is left alone:
+// `extract` writes table by table, meta last. Queries already running finish on the
+// handle they started with; a retired handle closes once its last query returns.
+const CHECK_MS = 5_000;
+const SETTLE_MS = 10_000;
+
+// Connection pool per instance: up to POOL_SIZE queries run at once (DuckDB connections
+// on one instance are independent); more wait for a free connection. Opened lazily.
+const POOL_SIZE = Math.max(1, Number(env.DB_POOL) || 4);
+
+interface Handle {
+    instance: DuckDBInstance;
+    conns: number; // opened so far (≤ POOL_SIZE)
+    idle: DuckDBConnection[];
+    waiting: ((c: DuckDBConnection) => void)[];
+    file: string; // ino:mtime:size it was opened from
+    mtime: string;
+    loadedAt: string;
+    snapshot: string | null;
+    active: number;
+    retired: boolean;
+    /** Archived extracts ATTACHed to this instance, by path + file key → catalog name. */
+    attached: Map<string, Promise<string>>;
+}
+
+let _current: Handle | null = null;
+let _opening: Promise<Handle> | null = null;
+let _checkedAt = 0;
+
+const fileKey = (st: { ino: number; mtimeMs: number; size: number }) =>
+    `${st.ino}:${st.mtimeMs}:${st.size}`;
+
+async function open(): Promise<Handle> {
+    const st = await stat(DB_PATH);
     const instance = await DuckDBInstance.create(DB_PATH, { access_mode: 'READ_ONLY' });
-    _conn = await instance.connect();
-    return _conn;
+    try {
+        const conn = await instance.connect();
+        const reader = await conn.runAndReadAll('SELECT snapshot_version FROM meta LIMIT 1');
+        const v = reader.getRowObjects()[0]?.snapshot_version;
+        return {
+            instance,
+            conns: 1,
+            idle: [conn],
+            waiting: [],
+            file: fileKey(st),
+            mtime: st.mtime.toISOString(),
+            loadedAt: new Date().toISOString(),
+            snapshot: v == null ? null : String(v),
+            active: 0,
+            retired: false,
+            attached: new Map(),
+        };
+    } catch (e) {
+        instance.closeSync();
+        throw e;
+    }
+}
+
+function retire(h: Handle) {
+    h.retired = true;
+    if (h.active === 0) close(h);
+}
+
+function close(h: Handle) {
+    try {
+        for (const c of h.idle) c.closeSync();
+        h.instance.closeSync();
+    } catch {
+        /* already closed */
+    }
+}
+
+async function acquire(h: Handle): Promise<DuckDBConnection> {
+    const free = h.idle.pop();
+    if (free) return free;
+    if (h.conns < POOL_SIZE) {
+        h.conns++;
+        try {
+            return await h.instance.connect();
+        } catch (e) {
+            h.conns--;
+            throw e;
+        }
+    }
+    return new Promise((res) => h.waiting.push(res));
+}
+
+function release(h: Handle, c: DuckDBConnection) {
+    const next = h.waiting.shift();
+    if (next) next(c);
+    else h.idle.push(c);
+}
+
+// Current handle, swapping in a new one first if the file has been replaced. Concurrent
+// callers share one open; a failed reopen keeps serving the old snapshot.
+async function handle(): Promise<Handle> {
+    if (!_current) {
+        _opening ??= open().finally(() => (_opening = null));
+        _current = await _opening;
+        _checkedAt = Date.now();
+        return _current;
+    }
+    if (Date.now() - _checkedAt < CHECK_MS || _opening) return _current;
+    _checkedAt = Date.now();
+    try {
+        const st = await stat(DB_PATH);
+        if (fileKey(st) === _current.file || Date.now() - st.mtimeMs < SETTLE_MS) return _current;
+        _opening = open().finally(() => (_opening = null));
+        const fresh = await _opening;
+        const old = _current;
+        _current = fresh;
+        _cache.clear();
+        if (old !== fresh) retire(old);
+        console.log(`[db] reloaded ${DB_PATH} (snapshot ${fresh.snapshot ?? '?'})`);
+    } catch (e) {
+        console.warn(`[db] reload of ${DB_PATH} failed, keeping the loaded snapshot:`, e);
+    }
+    return _current;
 }
 
 // Normalize DuckDB values into JSON-serializable JS:
@@ -35,22 +156,171 @@ function clean(v: unknown): unknown {
     return v;
 }
 
-export async function query<T = Record<string, unknown>>(
-    sql: string,
-    params: unknown[] = [],
-): Promise<T[]> {
-    const c = await conn();
-    // params are plain JS primitives; cast to the lib's expected value type at this boundary.
-    const reader = params.length
-        ? await c.runAndReadAll(sql, params as Parameters<DuckDBConnection['runAndReadAll']>[1])
-        : await c.runAndReadAll(sql);
+// Result cache keyed by snapshot + SQL + params (or a `derived` name). The extract is
+// read-only between reloads, so an entry is good until the snapshot changes (a reload
+// clears it all).
+// Holds the promise, so identical queries in flight at once run only once; failures
+// aren't kept. Insertion-ordered Map, oldest evicted past CACHE_MAX. Cached rows are
+// shared between callers — treat them as read-only.
+const CACHE_MAX = 500;
+const _cache = new Map<string, Promise<unknown>>();
+
+// One log line per query actually run, for spotting the expensive ones.
+const sqlHead = (sql: string) => sql.replace(/\s+/g, ' ').trim().slice(0, 90);
+
+async function run(h: Handle, sql: string, params: unknown[]): Promise<unknown[]> {
+    let c: DuckDBConnection | null = null;
+    let reader, t0;
+    h.active++;
+    try {
+        c = await acquire(h);
+        // timed from here, so a wait for a free connection doesn't read as a slow query
+        t0 = performance.now();
+        // params are plain JS primitives; cast to the lib's expected value type at this boundary.
+        reader = params.length
+            ? await c.runAndReadAll(sql, params as Parameters<DuckDBConnection['runAndReadAll']>[1])
+            : await c.runAndReadAll(sql);
+    } finally {
+        if (c) release(h, c);
+        h.active--;
+        if (h.retired && h.active === 0) close(h);
+    }
+    console.log(`[db] ${(performance.now() - t0).toFixed(0).padStart(5)}ms  ${sqlHead(sql)}`);
     return reader.getRowObjects().map((row) => {
         const o: Record<string, unknown> = {};
         for (const k of Object.keys(row)) o[k] = clean(row[k]);
-        return o as T;
+        return o;
     });
 }
 
+function cached<T>(key: string, compute: () => Promise<T>): Promise<T> {
+    let hit = _cache.get(key) as Promise<T> | undefined;
+    if (!hit) {
+        hit = compute();
+        _cache.set(key, hit);
+        hit.catch(() => _cache.delete(key));
+        if (_cache.size > CACHE_MAX) _cache.delete(_cache.keys().next().value as string);
+    }
+    return hit;
+}
+
+export async function query<T = Record<string, unknown>>(
+    sql: string,
+    params: unknown[] = [],
+): Promise<T[]> {
+    const h = await handle();
+    const key = `${h.snapshot}\u0000${sql}\u0000${JSON.stringify(params)}`;
+    return (await cached(key, () => run(h, sql, params))) as T[];
+}
+
+/** A result computed in JS from query() rows, cached alongside them: `key` names it (and
+ *  whatever besides the snapshot it depends on), `compute` runs once per snapshot. For
+ *  work that costs more than its queries — the nowcast, shift detection. Read-only too. */
+export async function derived<T>(key: string, compute: () => Promise<T>): Promise<T> {
+    const h = await handle();
+    return cached(`${h.snapshot}\u0000derived:${key}`, compute);
+}
+
+let _attached = 0;
+const lit = (p: string) => `'${p.replaceAll("'", "''")}'`;
+
+/** The archived extracts STELLAR_DB_COMPARE offers, newest first: the file it names, or
+ *  the *.duckdb files in the directory it names. [] when it's unset or unreadable. */
+export async function compareFiles(): Promise<CompareFile[]> {
+    if (!COMPARE_PATH) return [];
+    try {
+        const st = await stat(COMPARE_PATH);
+        const files = st.isDirectory()
+            ? (await readdir(COMPARE_PATH))
+                  .filter((f) => f.endsWith('.duckdb'))
+                  .map((f) => join(COMPARE_PATH, f))
+            : [COMPARE_PATH];
+        const out: CompareFile[] = [];
+        for (const f of files) {
+            if (resolve(f) === resolve(DB_PATH)) continue; // the loaded extract itself
+            out.push({ name: basename(f), mtime: (await stat(f)).mtime.toISOString() });
+        }
+        return out.sort((a, b) => b.mtime.localeCompare(a.mtime));
+    } catch {
+        return [];
+    }
+}
+
+/** Like `query`, against the loaded extract with the archived one `name` (from
+ *  compareFiles) ATTACHed READ_ONLY: `sql` gets the catalog to qualify its tables with
+ *  (`${db}.eco_mads`). Attached once per instance and file version; cached like `query`. */
+export async function queryAgainst<T = Record<string, unknown>>(
+    name: string,
+    sql: (db: string) => string,
+    params: unknown[] = [],
+): Promise<T[]> {
+    if (!(await compareFiles()).some((f) => f.name === name))
+        throw new Error(`No archived extract "${name}" under STELLAR_DB_COMPARE`);
+    const path = (await stat(COMPARE_PATH)).isDirectory() ? join(COMPARE_PATH, name) : COMPARE_PATH;
+    const file = `${path}\u0000${fileKey(await stat(path))}`;
+    const h = await handle();
+    let db = h.attached.get(file);
+    if (!db) {
+        const alias = `compare_${++_attached}`;
+        db = (async () => {
+            let c: DuckDBConnection | null = null;
+            h.active++;
+            try {
+                c = await acquire(h);
+                await c.run(`ATTACH ${lit(path)} AS ${alias} (READ_ONLY)`);
+                return alias;
+            } finally {
+                if (c) release(h, c);
+                h.active--;
+                if (h.retired && h.active === 0) close(h);
+            }
+        })();
+        h.attached.set(file, db);
+        db.catch(() => h.attached.delete(file));
+    }
+    const text = sql(await db);
+    const key = `${h.snapshot}\u0000${file}\u0000${text}\u0000${JSON.stringify(params)}`;
+    return (await cached(key, () => run(h, text, params))) as T[];
+}
+
+/** Awaits `fn`, logging how long it took under `label` (per-loader cost in the logs). */
+export async function timed<T>(label: string, fn: () => Promise<T>): Promise<T> {
+    const t0 = performance.now();
+    try {
+        return await fn();
+    } finally {
+        console.log(`[load] ${(performance.now() - t0).toFixed(0).padStart(5)}ms  ${label}`);
+    }
+}
+
+/** Rows → Parquet bytes, written by DuckDB's own `COPY … (FORMAT parquet)` so column
+ *  types come out typed (dates as DATE, lists as lists). Goes through a temp JSON file —
+ *  the extract is READ_ONLY, and COPY reads a file as happily as a table. Not cached. */
+export async function toParquet(rows: object[]): Promise<Uint8Array<ArrayBuffer>> {
+    const dir = await mkdtemp(join(tmpdir(), 'stellar-export-'));
+    const src = join(dir, 'rows.json');
+    const out = join(dir, 'rows.parquet');
+    try {
+        await writeFile(src, JSON.stringify(rows));
+        const h = await handle();
+        let c: DuckDBConnection | null = null;
+        h.active++;
+        try {
+            c = await acquire(h);
+            await c.run(
+                `COPY (SELECT * FROM read_json_auto(${lit(src)})) TO ${lit(out)} (FORMAT parquet)`,
+            );
+        } finally {
+            if (c) release(h, c);
+            h.active--;
+            if (h.retired && h.active === 0) close(h);
+        }
+        return new Uint8Array(await readFile(out));
+    } finally {
+        await rm(dir, { recursive: true, force: true });
+    }
+}
+
 export async function meta(): Promise<Meta> {
     try {
         return (await query<Meta>('SELECT * FROM meta'))[0] ?? {};
@@ -58,3 +328,15 @@ export async function meta(): Promise<Meta> {
         return {};
     }
 }
+
+/** What the server is actually serving: the loaded snapshot, when it was loaded, and the
+ *  file it came from. Feeds /api/health. */
+export async function dbStatus(): Promise<DbStatus> {
+    const h = await handle();
+    return {
+        path: DB_PATH,
+        snapshot_version: h.snapshot,
+        loaded_at: h.loadedAt,
+        file_mtime: h.mtime,
+    };
+}
@@ -1,22 +1,273 @@
 // Loads curated timeline events from the version-controlled events.json.
-// That file is the source of truth (managed by `stellar_odd.py events ...`),
-// NOT the DuckDB extract — so hand-curated annotations survive DB rebuilds.
-import { readFile } from 'node:fs/promises';
+// That file is the source of truth (managed by `stellar_odd.py events ...` or the
+// /event/edit page), NOT the DuckDB extract — so hand-curated annotations survive DB
+// rebuilds.
+import { createHash, randomBytes } from 'node:crypto';
+import { readFile, rename, unlink, writeFile } from 'node:fs/promises';
+import { error, isHttpError } from '@sveltejs/kit';
 import { env } from '$env/dynamic/private';
-import type { TimelineEvent } from '$lib/types';
+import { KNOWN_PARTNERS } from '$lib/colors';
+import { eventSlug, eventUid, isDay } from '$lib/format';
+import type { IcsEvent } from '$lib/server/ical';
+import type { EventImport, TimelineEvent } from '$lib/types';
 
 // Default is relative to the app's CWD (web/), mirroring STELLAR_DB's `../` convention.
 const EVENTS_FILE = env.EVENTS_FILE || '../events.json';
 
+/** File contents, or '' when it doesn't exist yet. */
+async function readRaw(): Promise<string> {
+    try {
+        return await readFile(EVENTS_FILE, 'utf8');
+    } catch (e) {
+        if ((e as NodeJS.ErrnoException).code === 'ENOENT') return '';
+        throw e;
+    }
+}
+
+// A content hash, so a writer can say which file it edited (If-Match) and a change made
+// underneath it — another tab, a `git pull`, the CLI — is caught instead of overwritten.
+const versionOf = (raw: string) => createHash('sha256').update(raw).digest('hex').slice(0, 16);
+
+function parse(raw: string): TimelineEvent[] {
+    const data: unknown = raw ? JSON.parse(raw) : [];
+    if (!Array.isArray(data)) return [];
+    return (data as TimelineEvent[])
+        .filter((e) => e && e.title && e.start && e.end)
+        .sort((a, b) => a.start.localeCompare(b.start));
+}
+
 export async function loadEvents(): Promise<TimelineEvent[]> {
     try {
-        const raw = await readFile(EVENTS_FILE, 'utf8');
-        const data: unknown = JSON.parse(raw);
-        if (!Array.isArray(data)) return [];
-        return (data as TimelineEvent[])
-            .filter((e) => e && e.title && e.start && e.end)
-            .sort((a, b) => a.start.localeCompare(b.start));
+        return parse(await readRaw());
     } catch {
         return []; // missing/invalid file → no annotations, the dashboard still works
     }
 }
+
+/** Events plus the version of the file they were read from (what writes must match). */
+export async function loadEventsVersioned(): Promise<{ events: TimelineEvent[]; version: string }> {
+    const raw = await readRaw();
+    let events: TimelineEvent[] = [];
+    try {
+        events = parse(raw);
+    } catch {
+        /* invalid JSON: nothing to show, and writes refuse it below */
+    }
+    return { events, version: versionOf(raw) };
+}
+
+// ---------------------------------------------------------------------------
+// Writes (POST/PUT/DELETE /api/events). An event is addressed by its slug, the same
+// one /event/[slug] uses. Writes are serialized in-process, checked against the
+// version the client loaded, and land via write-to-temp + rename, so a reader (or a
+// crash) never sees a half-written file. Output matches the CLI's: sorted by start,
+// 2-space JSON, trailing newline.
+// ---------------------------------------------------------------------------
+
+/** Checks a submitted event; throws 400 listing every problem. `others` are the events
+ *  it must not collide with (by slug, or by a renamed event's kept UID) and whose
+ *  partners count as known. */
+export function validateEvent(input: unknown, others: TimelineEvent[]): TimelineEvent {
+    const e = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>;
+    const str = (k: string) => (typeof e[k] === 'string' ? (e[k] as string).trim() : '');
+    const ev: TimelineEvent = {
+        title: str('title'),
+        partner: str('partner'),
+        start: str('start'),
+        end: str('end'),
+    };
+    if (str('description')) ev.description = str('description');
+    if (str('url')) ev.url = str('url');
+
+    const problems: string[] = [];
+    if (!ev.title) problems.push('title is required');
+    else if (ev.title.length > 120) problems.push('title is over 120 characters');
+    const partners = [...new Set([...KNOWN_PARTNERS, ...others.map((o) => o.partner)])];
+    if (!partners.includes(ev.partner)) {
+        const near = partners.find((p) => p.toLowerCase() === ev.partner.toLowerCase());
+        problems.push(
+            near
+                ? `partner "${ev.partner}" should be "${near}"`
+                : `unknown partner "${ev.partner}" (known: ${partners.join(', ')})`,
+        );
+    }
+    if (!isDay(ev.start)) problems.push('start must be a yyyy-mm-dd date');
+    if (!isDay(ev.end)) problems.push('end must be a yyyy-mm-dd date');
+    if (isDay(ev.start) && isDay(ev.end) && ev.end < ev.start)
+        problems.push(`end (${ev.end}) is before start (${ev.start})`);
+    let url: URL | null = null;
+    try {
+        url = new URL(ev.url ?? '');
+    } catch {
+        /* reported below */
+    }
+    if (!url || (url.protocol !== 'https:' && url.protocol !== 'http:'))
+        problems.push('url must be an http(s) link to the program page');
+    if ((ev.description?.length ?? 0) > 500) problems.push('description is over 500 characters');
+    if (ev.title && others.some((o) => eventSlug(o) === eventSlug(ev)))
+        problems.push(`an event "${ev.partner} ${ev.title}" already exists`);
+    else if (ev.title && others.some((o) => eventUid(o) === eventSlug(ev)))
+        problems.push(
+            `"${ev.partner} ${ev.title}" is a renamed event's old name, which its calendar UID keeps`,
+        );
+    if (problems.length) throw error(400, problems.join('; '));
+    return ev;
+}
+
+let _writing: Promise<unknown> = Promise.resolve();
+
+/** Applies `change` to the file's events if it is still at `expected`; returns the new
+ *  list and version. 409 when the file moved on since the client read it. */
+export function updateEvents(
+    expected: string,
+    change: (events: TimelineEvent[]) => TimelineEvent[],
+): Promise<{ events: TimelineEvent[]; version: string }> {
+    const run = _writing.then(async () => {
+        const raw = await readRaw();
+        if (versionOf(raw) !== expected)
+            throw error(409, 'events.json changed since you loaded it; reload and try again.');
+        let data: unknown;
+        try {
+            data = raw ? JSON.parse(raw) : [];
+        } catch {
+            data = null;
+        }
+        if (!Array.isArray(data))
+            throw error(500, 'events.json is not a JSON array; fix it by hand first.');
+
+        const next = change(data as TimelineEvent[]).sort((a, b) => a.start.localeCompare(b.start));
+        const out = `${JSON.stringify(next, null, 2)}\n`;
+        const tmp = `${EVENTS_FILE}.${process.pid}.${randomBytes(4).toString('hex')}.tmp`;
+        try {
+            await writeFile(tmp, out, 'utf8');
+            await rename(tmp, EVENTS_FILE);
+        } catch (e) {
+            await unlink(tmp).catch(() => {});
+            throw e;
+        }
+        return { events: parse(out), version: versionOf(out) };
+    });
+    _writing = run.catch(() => {});
+    return run;
+}
+
+// ---------------------------------------------------------------------------
+// .ics import (POST /api/events.ics). Each calendar entry needs a partner: taken from
+// its CATEGORIES, then its ORGANIZER (name, or the address's domain), then the
+// caller's fallback — matched against the known partners and the aliases below.
+// ---------------------------------------------------------------------------
+
+/** How organizers appear in partner calendars → our partner names. Keys are lowercase
+ *  letters and digits only (see `norm`). */
+const PARTNER_ALIASES: Record<string, string> = {
+    drips: 'Drips',
+    dripsnetwork: 'Drips',
+    dorahacks: 'Stellar Hacks',
+    stellarhacks: 'Stellar Hacks',
+    grantfox: 'GrantFox',
+};
+const SEP = /^\s*[:—–-]\s*/;
+const norm = (s: string) => s.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+function mapPartner(names: string[], partners: string[]): string | null {
+    for (const name of names) {
+        // "Drips Network", "waves@drips.network" → also try "drips.network", "drips", …
+        const parts = [name, ...name.split('@').slice(1), ...name.split(/[@.\s]/)];
+        for (const part of parts.map(norm).filter(Boolean)) {
+            const known = partners.find((p) => norm(p) === part) ?? PARTNER_ALIASES[part];
+            if (known) return known;
+        }
+    }
+    return null;
+}
+
+/** What importing `parsed` into `events` would do. Duplicates (same title and dates as
+ *  an existing event, or earlier in the file) are left alone; an entry whose partner
+ *  and title match an existing event but whose dates moved updates it; the rest are
+ *  added if they pass the same checks as the form. */
+export function planImport(
+    events: TimelineEvent[],
+    parsed: IcsEvent[],
+    fallback: string | null,
+): Omit<EventImport, 'version'> {
+    const partners = [...new Set([...KNOWN_PARTNERS, ...events.map((e) => e.partner)])];
+    const plan: Omit<EventImport, 'version'> = {
+        added: [],
+        updated: [],
+        unchanged: [],
+        rejected: [],
+    };
+    const seen = new Set<string>();
+    for (const ics of parsed) {
+        const partner = mapPartner(
+            [
+                ...ics.categories,
+                ...(ics.organizer ? [ics.organizer] : []),
+                ...(fallback ? [fallback] : []),
+            ],
+            partners,
+        );
+        if (!partner) {
+            plan.rejected.push({
+                summary: ics.summary,
+                start: ics.start,
+                problem: `no partner for organizer "${ics.organizer ?? '—'}"; pick one for unmapped events`,
+            });
+            continue;
+        }
+        // our own feed writes "Partner: Title"; drop that prefix so a round trip matches
+        const rest = ics.summary.slice(partner.length);
+        const title =
+            ics.summary.toLowerCase().startsWith(partner.toLowerCase()) && SEP.test(rest)
+                ? rest.replace(SEP, '')
+                : ics.summary;
+        const key = `${title.toLowerCase()}|${ics.start}|${ics.end}`;
+        const same = events.find(
+            (e) =>
+                e.title.toLowerCase() === title.toLowerCase() &&
+                e.start === ics.start &&
+                e.end === ics.end,
+        );
+        if (same || seen.has(key)) {
+            if (same) plan.unchanged.push(same);
+            continue;
+        }
+        seen.add(key);
+
+        const draft = {
+            title,
+            partner,
+            start: ics.start,
+            end: ics.end,
+            url: ics.url ?? '',
+            description: ics.description ?? '',
+        };
+        const slug = eventSlug(draft);
+        const prev = events.find((e) => eventSlug(e) === slug);
+        try {
+            if (prev) {
+                const next = validateEvent(
+                    {
+                        ...draft,
+                        url: ics.url ?? prev.url,
+                        description: ics.description ?? prev.description,
+                    },
+                    events.filter((e) => e !== prev),
+                );
+                plan.updated.push({ ...prev, ...next });
+            } else {
+                plan.added.push(validateEvent(draft, [...events, ...plan.added]));
+            }
+        } catch (e) {
+            if (!isHttpError(e)) throw e;
+            plan.rejected.push({ summary: ics.summary, start: ics.start, problem: e.body.message });
+        }
+    }
+    return plan;
+}
+
+/** `events` with a plan's updates swapped in and its additions appended. */
+export const applyImport = (events: TimelineEvent[], plan: Omit<EventImport, 'version'>) => [
+    ...events.map((e) => plan.updated.find((u) => eventSlug(u) === eventSlug(e)) ?? e),
+    ...plan.added,
+];
@@ -0,0 +1,44 @@
+// Loads the exclusion rules behind the "clean" series from the version-controlled
+// exclusions.json. Like events.json, that file (not the DuckDB extract) is the source
+// of truth, so a rule survives extract rebuilds and retires with a one-line diff.
+import { readFile } from 'node:fs/promises';
+import { env } from '$env/dynamic/private';
+import type { ExclusionRule } from '$lib/types';
+
+// Default is relative to the app's CWD (web/), mirroring EVENTS_FILE.
+const EXCLUSIONS_FILE = env.EXCLUSIONS_FILE || '../exclusions.json';
+
+// Rule ids and the numeric ids are inlined into SQL by queries.ts, so anything that
+// isn't a plain slug / integer is dropped here rather than escaped there.
+const SLUG = /^[a-z0-9][a-z0-9-]*$/;
+const ints = (v: unknown): number[] =>
+    Array.isArray(v) ? v.filter((n): n is number => Number.isInteger(n)) : [];
+const strs = (v: unknown): string[] =>
+    Array.isArray(v) ? v.filter((s): s is string => typeof s === 'string' && s !== '') : [];
+
+/** Active rules only (`active: false` retires a rule without deleting it). */
+export async function loadExclusions(): Promise<ExclusionRule[]> {
+    try {
+        const raw = await readFile(EXCLUSIONS_FILE, 'utf8');
+        const data: unknown = JSON.parse(raw);
+        if (!Array.isArray(data)) return [];
+        return (data as ExclusionRule[])
+            .filter(
+                (r) =>
+                    r &&
+                    SLUG.test(r.id) &&
+                    r.title &&
+                    (r.mode === 'repo' || r.mode === 'only-activity') &&
+                    r.active !== false,
+            )
+            .map((r) => ({
+                ...r,
+                repos: ints(r.repos),
+                owners: strs(r.owners),
+                devs: ints(r.devs),
+                label: typeof r.label === 'string' && r.label ? r.label : undefined,
+            }));
+    } catch {
+        return []; // missing/invalid file → no rules, clean == official
+    }
+}
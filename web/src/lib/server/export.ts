@@ -0,0 +1,376 @@
+// Dataset exports behind /api/export/[dataset]: the same rows the dashboard shows, flat,
+// as CSV, JSON or Parquet. Each dataset reuses its queries.ts loader and takes the same
+// window/sort parameters as the view it backs, so a download matches what's on screen
+// (minus the top-30 cut on the leaderboards).
+import { error } from '@sveltejs/kit';
+import { toParquet } from '$lib/server/db';
+import {
+    getMad,
+    getDiagnose,
+    getRepoAggregates,
+    getDevAggregates,
+    getRepoDetail,
+    getDevDetail,
+    getDayDetail,
+    getRangeDetail,
+    getCohorts,
+    getCohortDetail,
+    getNowcast,
+    getChurn,
+    getOrgDetail,
+    getGroupDetail,
+    getReconciliation,
+    getRestatements,
+    RANGE_MAX_DAYS,
+} from '$lib/server/queries';
+import { isDay } from '$lib/format';
+import { HEALTH_SORTS, REPO_MODES, rankRepos, type HealthSort } from '$lib/leaderboard';
+import type { WindowMetrics } from '$lib/types';
+
+// interface rows (RepoDevRow, …) have no index signature, so keep this loose
+type Row = object;
+export type ExportFormat = 'csv' | 'json' | 'parquet';
+
+/** `name` becomes the download's file name (before the extension). */
+interface Dataset {
+    rows: Row[];
+    name: string;
+}
+
+const WINDOWS = [28, 60, 90] as const;
+const windowOf = (p: URLSearchParams) =>
+    WINDOWS.find((w) => w === Number(p.get('window'))) ?? WINDOWS[0];
+// ?days= as on the chart's range toggle: 120 by default, 100000 is "all"
+const MAX_DAYS = 100000;
+const daysOf = (p: URLSearchParams) => {
+    const v = p.get('days');
+    if (!v) return 120;
+    if (!/^\d+$/.test(v) || Number(v) < 1)
+        throw error(400, `?days= must be a whole number of days, not "${v}".`);
+    return Math.min(Number(v), MAX_DAYS);
+};
+const need = (p: URLSearchParams, key: string) => {
+    const v = p.get(key);
+    if (!v) throw error(400, `Missing ?${key}=`);
+    return v;
+};
+const rollupOf = async (p: URLSearchParams, kind: 'org' | 'group') => {
+    const key = need(p, kind === 'org' ? 'owner' : 'id');
+    const r = kind === 'org' ? await getOrgDetail(key) : await getGroupDetail(key);
+    if (!r) throw error(404, `No ${kind} "${key}".`);
+    return r;
+};
+const restatedOf = async (p: URLSearchParams) => {
+    const r = await getRestatements(p.get('against'));
+    if (!r.against)
+        throw error(404, 'No archived extract to compare against (STELLAR_DB_COMPARE).');
+    return { ...r, against: r.against.replace(/\.duckdb$/, '') };
+};
+
+// `clean` defaults on, like the leaderboards' toggle
+const cleanOf = (p: URLSearchParams) => p.get('clean') !== '0' && p.get('clean') !== 'false';
+
+// Detail-page rows: keep every window's columns, but filter + sort by the chosen one
+// ('all' by default) the way the page's window toggle does.
+function byWindow<T extends WindowMetrics>(rows: T[], p: URLSearchParams): T[] {
+    const w = p.get('window');
+    const c = (r: T) => (w === '28' ? r.c28 : w === '60' ? r.c60 : w === '90' ? r.c90 : r.c_all);
+    return rows.filter((r) => c(r) > 0).sort((a, b) => c(b) - c(a));
+}
+
+const DATASETS: Record<string, (p: URLSearchParams) => Promise<Dataset>> = {
+    /** The MAD series with its clean, class and daily companions, one row per day. */
+    async mad(p) {
+        const days = daysOf(p);
+        const m = await getMad(days);
+        const ex = new Map(m.exclusions.combined.map((r) => [r.day, r]));
+        const daily = new Map(m.daily.map((r) => [r.day, r]));
+        const cls = new Map(m.classes.map((r) => [r.day, r]));
+        const api = new Map(m.api.map((r) => [r.day, r]));
+        const rows = m.windowed.map((w) => ({
+            ...w,
+            clean_devs: w.all_devs - (ex.get(w.day)?.devs ?? 0),
+            clean_commits: w.num_commits - (ex.get(w.day)?.commits ?? 0),
+            clean_full_time: cls.get(w.day)?.full_time ?? null,
+            clean_part_time: cls.get(w.day)?.part_time ?? null,
+            clean_one_time: cls.get(w.day)?.one_time ?? null,
+            daily_active_devs: daily.get(w.day)?.daily_active_devs ?? null,
+            daily_commits: daily.get(w.day)?.daily_commits ?? null,
+            daily_excluded_devs: daily.get(w.day)?.excluded_devs ?? null,
+            api_total: api.get(w.day)?.total ?? null,
+        }));
+        return { rows, name: `mad-${days >= MAX_DAYS ? 'all' : `${days}d`}` };
+    },
+
+    /** Repo leaderboard: ?window=28|60|90 &by=devs|commits|rising|falling|new|quiet
+     *  [&sort=bus_factor|top_share|hhi|retention|idle_days &flip=1] &clean=1|0. */
+    async repos(p) {
+        const w = windowOf(p);
+        const by = REPO_MODES.find((b) => b === p.get('by')) ?? 'devs';
+        const sort = Object.hasOwn(HEALTH_SORTS, p.get('sort') ?? '')
+            ? (p.get('sort') as HealthSort)
+            : null;
+        const clean = cleanOf(p);
+        const repos = (await getRepoAggregates()).filter((r) => !clean || !r.excluded);
+        // the sparkline stays on screen; the file keeps the flat columns
+        const rows = rankRepos(repos, w, by, sort, p.get('flip') === '1').map((r) => ({
+            repo: r.repo,
+            url: r.url,
+            devs: r.devs,
+            commits: r.commits,
+            prior_devs: r.prior_devs,
+            change: r.change,
+            bus_factor: r.bus_factor,
+            top_share: r.top_share,
+            hhi: r.hhi,
+            retention: r.retention,
+            idle_days: r.idle_days,
+            last_active_day: r.last_active_day,
+            excluded: r.excluded,
+        }));
+        return {
+            rows,
+            name: `repos-${w}d-by-${by}${sort ? `-${sort}` : ''}${clean ? '' : '-official'}`,
+        };
+    },
+
+    /** Developer leaderboard: ?window=28|60|90 &by=commits|days|repos &clean=1|0. */
+    async devs(p) {
+        const w = windowOf(p);
+        const by = (['days', 'repos'] as const).find((b) => b === p.get('by')) ?? 'commits';
+        const clean = cleanOf(p);
+        const rows = (await getDevAggregates())
+            .filter((d) => !clean || !d.excluded)
+            .map((d) => ({
+                dev: d.dev,
+                login: d.login,
+                name: d.name,
+                commits: w === 28 ? d.c28 : w === 60 ? d.c60 : d.c90,
+                days: w === 28 ? d.a28 : w === 60 ? d.a60 : d.a90,
+                repos: w === 28 ? d.r28 : w === 60 ? d.r60 : d.r90,
+                dev_class: d.dev_class,
+                excluded: d.excluded,
+            }))
+            .filter((d) => d.commits > 0)
+            .sort((a, b) => b[by] - a[by]);
+        return { rows, name: `devs-${w}d-by-${by}${clean ? '' : '-official'}` };
+    },
+
+    /** Developers on one repo: ?slug=owner/repo &window=28|60|90|all. */
+    async repo(p) {
+        const slug = need(p, 'slug');
+        const r = await getRepoDetail(slug);
+        if (!r) throw error(404, `No repo "${slug}" in the extract.`);
+        return { rows: byWindow(r.devs, p), name: `repo-${slug.replace('/', '_')}-devs` };
+    },
+
+    /** One repo's daily history (rolling 28-day devs, daily commits): ?slug=. */
+    async 'repo-history'(p) {
+        const slug = need(p, 'slug');
+        const r = await getRepoDetail(slug);
+        if (!r) throw error(404, `No repo "${slug}" in the extract.`);
+        return { rows: r.history, name: `repo-${slug.replace('/', '_')}-history` };
+    },
+
+    /** Repos under one GitHub owner with 28/90-day devs and commits: ?owner=. */
+    async org(p) {
+        const r = await rollupOf(p, 'org');
+        return { rows: r.repos, name: `org-${r.key}-repos` };
+    },
+
+    /** One owner's daily history (distinct devs across its repos, commits, MAD): ?owner=. */
+    async 'org-history'(p) {
+        const r = await rollupOf(p, 'org');
+        return { rows: r.history, name: `org-${r.key}-history` };
+    },
+
+    /** Repos in one groups.json group: ?id=. */
+    async group(p) {
+        const r = await rollupOf(p, 'group');
+        return { rows: r.repos, name: `group-${r.key}-repos` };
+    },
+
+    /** One group's daily history: ?id=. */
+    async 'group-history'(p) {
+        const r = await rollupOf(p, 'group');
+        return { rows: r.history, name: `group-${r.key}-history` };
+    },
+
+    /** Repos one developer worked on: ?login= &window=28|60|90|all. */
+    async dev(p) {
+        const login = need(p, 'login');
+        const d = await getDevDetail(login);
+        if (!d) throw error(404, `No developer "${login}".`);
+        return { rows: byWindow(d.repos, p), name: `dev-${login}-repos` };
+    },
+
+    /** Every active day of one developer: ?login=. */
+    async 'dev-days'(p) {
+        const login = need(p, 'login');
+        const d = await getDevDetail(login);
+        if (!d) throw error(404, `No developer "${login}".`);
+        return { rows: d.days, name: `dev-${login}-days` };
+    },
+
+    /** Every (repo, dev) pair active on one day: ?date=yyyy-mm-dd. */
+    async day(p) {
+        const date = need(p, 'date');
+        if (!isDay(date)) throw error(400, `"${date}" is not a date.`);
+        return { rows: (await getDayDetail(date)).pairs, name: `day-${date}` };
+    },
+
+    /** Every (repo, dev) pair active over a range, summed: ?start=&end= (yyyy-mm-dd). */
+    async range(p) {
+        const [start, end] = [need(p, 'start'), need(p, 'end')];
+        for (const d of [start, end]) if (!isDay(d)) throw error(400, `"${d}" is not a date.`);
+        const span = (Date.parse(end) - Date.parse(start)) / 86400000 + 1;
+        if (span < 1 || span > RANGE_MAX_DAYS)
+            throw error(400, `A range runs forward and spans at most ${RANGE_MAX_DAYS} days.`);
+        return { rows: (await getRangeDetail(start, end)).pairs, name: `range-${start}-${end}` };
+    },
+
+    /** The gap-week nowcast, one row per day past the horizon, with that lead's backtest. */
+    async nowcast() {
+        const n = await getNowcast();
+        if (!n) throw error(404, 'The extract is too short to nowcast.');
+        const err = new Map(n.errors.map((e) => [e.lead, e]));
+        return {
+            rows: n.days.map((d) => ({ ...d, ...err.get(d.lead), horizons: n.horizons })),
+            name: `nowcast-${n.from}`,
+        };
+    },
+
+    /** Rolling retained-vs-new split per anchor day: ?days=. */
+    async cohort(p) {
+        const days = daysOf(p);
+        return { rows: (await getDiagnose(days)).cohort, name: `cohort-${days}d` };
+    },
+
+    /** Surge days (daily devs over 2× the trailing-90d median): ?days=. */
+    async surge(p) {
+        const days = daysOf(p);
+        return { rows: (await getDiagnose(days)).surgeDays, name: `surge-${days}d` };
+    },
+
+    /** Once-regular developers gone silent: ?min= (active days) &idle= (days silent). */
+    async churn(p) {
+        const c = await getChurn(
+            Number(p.get('min') || 20),
+            Number(p.get('idle') || 60),
+            Number(p.get('gap') || 90),
+        );
+        return {
+            rows: c.churned.map((d) => ({ ...d, repos: d.repos.join(' ') })),
+            name: `churn-${c.min_days}d-idle-${c.idle}d`,
+        };
+    },
+
+    /** Developers back after a long gap: ?gap= (days without a commit). */
+    async reactivated(p) {
+        const c = await getChurn(
+            Number(p.get('min') || 20),
+            Number(p.get('idle') || 60),
+            Number(p.get('gap') || 90),
+        );
+        return {
+            rows: c.reactivated.map((d) => ({ ...d, repos: d.repos.join(' ') })),
+            name: `reactivated-gap-${c.gap}d`,
+        };
+    },
+
+    /** API points against eco_mads, with the differences: ?pct= (flag threshold). */
+    async reconcile(p) {
+        const r = await getReconciliation(Number(p.get('pct')));
+        return {
+            rows: r.rows.map((d) => ({ ...d, over: d.over.join(' ') })),
+            name: `reconcile-${r.threshold}pct`,
+        };
+    },
+
+    /** Every captured value of the API points that have been restated. */
+    async 'api-revisions'() {
+        return { rows: (await getReconciliation(0)).revisions ?? [], name: 'api-revisions' };
+    },
+
+    /** Shared days whose numbers moved between the loaded and an archived extract:
+     *  ?against= (a file name under STELLAR_DB_COMPARE; default the newest). */
+    async restatements(p) {
+        const r = await restatedOf(p);
+        return { rows: r.days, name: `restatements-${r.against}` };
+    },
+
+    /** Repos whose commits or devs moved, biggest change first (top 200). */
+    async 'restated-repos'(p) {
+        const r = await restatedOf(p);
+        return { rows: r.repos, name: `restated-repos-${r.against}` };
+    },
+
+    /** Developers whose commits moved, biggest change first (top 200). */
+    async 'restated-devs'(p) {
+        const r = await restatedOf(p);
+        return { rows: r.devs, name: `restated-devs-${r.against}` };
+    },
+
+    /** The acquisition-cohort matrix, one row per cell: ?months=. */
+    async cohorts(p) {
+        const m = await getCohorts(Number(p.get('months') || 24));
+        return { rows: m.cells, name: `cohorts-${m.months}m` };
+    },
+
+    /** One acquisition cohort's developers: ?cohort=yyyy-mm [&month=yyyy-mm]. */
+    async 'cohort-devs'(p) {
+        const cohort = need(p, 'cohort');
+        const month = p.get('month');
+        if (!/^\d{4}-\d{2}$/.test(cohort) || (month && !/^\d{4}-\d{2}$/.test(month)))
+            throw error(400, 'Cohort and month are yyyy-mm.');
+        const d = await getCohortDetail(cohort, month);
+        return { rows: d.devs, name: `cohort-${cohort}${month ? `-in-${month}` : ''}` };
+    },
+};
+
+const csvCell = (v: unknown): string => {
+    if (v == null) return '';
+    const s = Array.isArray(v) ? v.join('; ') : String(v);
+    return /[",\n\r]/.test(s) ? `"${s.replaceAll('"', '""')}"` : s;
+};
+
+/** RFC 4180 CSV; the header is the first row's keys (every row of a dataset shares them). */
+function toCsv(rows: Row[]): string {
+    if (!rows.length) return '';
+    const cols = Object.keys(rows[0]);
+    return [
+        cols.join(','),
+        ...rows.map((r) => cols.map((c) => csvCell((r as Record<string, unknown>)[c])).join(',')),
+    ]
+        .map((l) => `${l}\r\n`)
+        .join('');
+}
+
+const TYPES: Record<ExportFormat, string> = {
+    csv: 'text/csv; charset=utf-8',
+    json: 'application/json',
+    parquet: 'application/vnd.apache.parquet',
+};
+
+/** Builds the download for `dataset`, or throws a 4xx for an unknown one / bad params. */
+export async function exportDataset(dataset: string, params: URLSearchParams): Promise<Response> {
+    const load = Object.hasOwn(DATASETS, dataset) ? DATASETS[dataset] : null;
+    if (!load)
+        throw error(404, `No dataset "${dataset}" (one of: ${Object.keys(DATASETS).join(', ')}).`);
+    const format = (['json', 'parquet'] as const).find((f) => f === params.get('format')) ?? 'csv';
+    const { rows, name } = await load(params);
+    if (format === 'parquet' && !rows.length) throw error(404, 'Nothing to export.');
+
+    const body =
+        format === 'csv'
+            ? toCsv(rows)
+            : format === 'json'
+              ? JSON.stringify(rows)
+              : await toParquet(rows);
+    return new Response(body, {
+        headers: {
+            'content-type': TYPES[format],
+            'content-disposition': `attachment; filename="stellar-${name}.${format}"`,
+        },
+    });
+}
@@ -0,0 +1,42 @@
+// Loads user-defined repo groups (SDKs, protocol core, …) from the version-controlled
+// groups.json. Like exclusions.json, the file is the source of truth: a group is a
+// regex over owner/repo names and/or an explicit repo list, resolved against whatever
+// extract is loaded, so it keeps up as repos appear.
+import { readFile } from 'node:fs/promises';
+import { env } from '$env/dynamic/private';
+import type { RepoGroup } from '$lib/types';
+
+// Default is relative to the app's CWD (web/), mirroring EXCLUSIONS_FILE.
+const GROUPS_FILE = env.GROUPS_FILE || '../groups.json';
+
+// Group ids end up in URLs and series keys; patterns run in DuckDB as bound parameters.
+const SLUG = /^[a-z0-9][a-z0-9-]*$/;
+const strs = (v: unknown): string[] =>
+    Array.isArray(v) ? v.filter((s): s is string => typeof s === 'string' && s !== '') : [];
+const compiles = (p: string) => {
+    try {
+        new RegExp(p);
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+/** Valid groups only: a slug id, a title, and a pattern that compiles or a repo list. */
+export async function loadGroups(): Promise<RepoGroup[]> {
+    try {
+        const data: unknown = JSON.parse(await readFile(GROUPS_FILE, 'utf8'));
+        if (!Array.isArray(data)) return [];
+        return (data as RepoGroup[])
+            .filter((g) => g && SLUG.test(g.id) && g.title)
+            .map((g) => ({
+                ...g,
+                pattern:
+                    typeof g.pattern === 'string' && compiles(g.pattern) ? g.pattern : undefined,
+                repos: strs(g.repos),
+            }))
+            .filter((g) => g.pattern || g.repos?.length);
+    } catch {
+        return []; // missing/invalid file → no groups
+    }
+}
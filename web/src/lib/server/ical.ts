@@ -0,0 +1,154 @@
+// iCalendar (RFC 5545) in and out for timeline events — just the subset program
+// calendars use. Out: one all-day VEVENT per event. In: VEVENTs reduced to a summary,
+// a date range and whatever names the organizer; recurrence rules aren't expanded (a
+// recurring entry imports as its first occurrence).
+import { eventUid, shiftDay } from '$lib/format';
+import type { TimelineEvent } from '$lib/types';
+
+/** One VEVENT as read from a calendar file; dates are inclusive yyyy-mm-dd. */
+export interface IcsEvent {
+    uid: string | null;
+    summary: string;
+    start: string;
+    end: string;
+    description: string | null;
+    url: string | null;
+    /** Organizer common name (CN=…), else its address. */
+    organizer: string | null;
+    categories: string[];
+}
+
+const esc = (s: string) =>
+    s
+        .replaceAll('\\', '\\\\')
+        .replaceAll(';', '\\;')
+        .replaceAll(',', '\\,')
+        .replace(/\r?\n/g, '\\n');
+const unesc = (s: string) =>
+    s.replace(/\\([\\;,nN])/g, (_, c) => (c === 'n' || c === 'N' ? '\n' : c));
+
+// Content lines are folded at 75 octets (not characters), continuing with a space.
+function fold(line: string): string {
+    const out: string[] = [];
+    let cur = '';
+    let bytes = 0;
+    for (const ch of line) {
+        const n = Buffer.byteLength(ch);
+        if (bytes + n > (out.length ? 74 : 75)) {
+            out.push(cur);
+            cur = '';
+            bytes = 0;
+        }
+        cur += ch;
+        bytes += n;
+    }
+    out.push(cur);
+    return out.join('\r\n ');
+}
+
+const ymd = (day: string) => day.replaceAll('-', '');
+
+/** The feed. UIDs are the event's stored uid, else its slug (not the serving host); a
+ *  rename pins the old slug as the uid, so an event keeps its identity in subscribers'
+ *  calendars through any edit. */
+export function toIcs(events: TimelineEvent[], stamp: Date): string {
+    const dtstamp = stamp.toISOString().replace(/[-:]/g, '').replace(/\.\d+/, '');
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//stellar-odd//timeline events//EN',
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        'X-WR-CALNAME:Stellar programs & hackathons',
+    ];
+    for (const e of events) {
+        lines.push(
+            'BEGIN:VEVENT',
+            `UID:${eventUid(e)}@stellar-odd`,
+            `DTSTAMP:${dtstamp}`,
+            `DTSTART;VALUE=DATE:${ymd(e.start)}`,
+            `DTEND;VALUE=DATE:${ymd(shiftDay(e.end, 1))}`, // exclusive for all-day events
+            `SUMMARY:${esc(`${e.partner}: ${e.title}`)}`,
+            `CATEGORIES:${esc(e.partner)}`,
+        );
+        if (e.description) lines.push(`DESCRIPTION:${esc(e.description)}`);
+        if (e.url) lines.push(`URL:${e.url}`);
+        lines.push('TRANSP:TRANSPARENT', 'END:VEVENT');
+    }
+    lines.push('END:VCALENDAR');
+    return lines.map(fold).join('\r\n') + '\r\n';
+}
+
+// NAME;PARAM=value;PARAM="quoted:value":VALUE
+const PROP = /^([A-Za-z0-9-]+)((?:;[^=;:]+=(?:"[^"]*"|[^";:]*))*):(.*)$/;
+const PARAM = /;([^=;:]+)=("[^"]*"|[^";:]*)/g;
+
+/** A DATE or DATE-TIME value's calendar day (floating/TZID times keep their local date). */
+const dayOf = (v: string) => {
+    const m = /^(\d{4})(\d{2})(\d{2})/.exec(v);
+    return m ? `${m[1]}-${m[2]}-${m[3]}` : null;
+};
+
+export function parseIcs(text: string): IcsEvent[] {
+    // unfold continuation lines first
+    const lines = text
+        .replace(/\r\n?/g, '\n')
+        .replace(/\n[ \t]/g, '')
+        .split('\n');
+    const out: IcsEvent[] = [];
+    let cur: Map<string, { params: Record<string, string>; value: string }> | null = null;
+    for (const line of lines) {
+        if (line === 'BEGIN:VEVENT') cur = new Map();
+        else if (line === 'END:VEVENT' && cur) {
+            const ev = toEvent(cur);
+            if (ev) out.push(ev);
+            cur = null;
+        } else if (cur) {
+            const m = PROP.exec(line);
+            if (!m) continue;
+            const params: Record<string, string> = {};
+            for (const p of m[2].matchAll(PARAM))
+                params[p[1].toUpperCase()] = p[2].replaceAll('"', '');
+            const name = m[1].toUpperCase();
+            if (!cur.has(name)) cur.set(name, { params, value: m[3] });
+        }
+    }
+    return out;
+}
+
+function toEvent(
+    p: Map<string, { params: Record<string, string>; value: string }>,
+): IcsEvent | null {
+    const summary = unesc(p.get('SUMMARY')?.value ?? '').trim();
+    const dtstart = p.get('DTSTART');
+    const start = dtstart ? dayOf(dtstart.value) : null;
+    if (!summary || !start) return null;
+
+    // DTEND is exclusive: a DATE end, or a DATE-TIME end at midnight, closes the day before.
+    let end = start;
+    const dtend = p.get('DTEND');
+    const endDay = dtend ? dayOf(dtend.value) : null;
+    if (dtend && endDay) {
+        const allDay = dtend.params.VALUE === 'DATE' || /^\d{8}$/.test(dtend.value);
+        const midnight = /T000000/.test(dtend.value);
+        end = (allDay || midnight) && endDay > start ? shiftDay(endDay, -1) : endDay;
+    }
+    if (end < start) end = start;
+
+    const description = unesc(p.get('DESCRIPTION')?.value ?? '').trim() || null;
+    const org = p.get('ORGANIZER');
+    return {
+        uid: p.get('UID')?.value ?? null,
+        summary,
+        start,
+        end,
+        description,
+        // no URL property: the first link in the description usually is the program page
+        url: p.get('URL')?.value.trim() || description?.match(/https?:\/\/[^\s<>"]+/)?.[0] || null,
+        organizer: org ? org.params.CN || org.value.replace(/^mailto:/i, '') : null,
+        categories: (p.get('CATEGORIES')?.value ?? '')
+            .split(/(?<!\\),/)
+            .map((c) => unesc(c).trim())
+            .filter(Boolean),
+    };
+}
@@ -1,9 +1,12 @@
 // Shared server-side queries against the DuckDB extract. The page's server `load`
 // and the /api/* endpoints both call these, so the SQL lives in exactly one place.
-import { query, meta } from '$lib/server/db';
+import { compareFiles, derived, query, queryAgainst, meta } from '$lib/server/db';
 import { loadEvents } from '$lib/server/events';
+import { loadExclusions } from '$lib/server/exclusions';
+import { loadGroups } from '$lib/server/groups';
 import type {
     WindowedRow,
+    ClassRow,
     DailyRow,
     ApiRow,
     MadResponse,
@@ -14,55 +17,162 @@ import type {
     CohortRow,
     Intensity,
     SurgeDay,
+    ChangePoint,
+    ChartPoint,
     DiagnoseResponse,
     DevDetail,
+    DevDayRow,
+    DevMonthRow,
     RepoDetail,
+    RepoHistoryRow,
     DevRepoRow,
     RepoDevRow,
     DayPair,
     DayDetail,
-    PhantomRow,
+    RangePair,
+    RangeDay,
+    RangeDetail,
+    ExclusionRule,
+    ExclusionRow,
+    Exclusions,
+    TimelineEvent,
+    EventImpact,
+    EventRepoRow,
+    EventDay,
+    EventDetail,
+    CompareDetail,
+    CompareDev,
+    CompareOwner,
+    CompareRepo,
+    RollOff,
+    RollOffDay,
+    RollOffRepo,
+    Nowcast,
+    NowcastDay,
+    NowcastError,
+    CohortCell,
+    CohortMatrix,
+    CohortDevRow,
+    CohortDetail,
+    ApiRevision,
+    AuditCheck,
+    DataAudit,
+    CleanMadWindow,
+    MatchedDay,
+    ChurnedDev,
+    ChurnResponse,
+    ReactivatedDev,
+    SearchHit,
+    SearchResponse,
+    RepoGroup,
+    RepoHealth,
+    RepoHealthWindows,
+    RollupDetail,
+    RollupHistoryRow,
+    RollupRepoRow,
+    RollupSeries,
+    ReconResponse,
+    RestatedDay,
+    RestatedDev,
+    RestatedRepo,
+    RestatementKind,
+    RestatementResponse,
+    RestatementSide,
+    ReconRow,
 } from '$lib/types';
+import { eventSlug, shiftDay, weekday } from '$lib/format';
 
 // ---------------------------------------------------------------------------
-// TEMPORARY: stellar/winget-pkgs phantom developers.
+// Exclusion rules (exclusions.json): misattributed forks, mirrors and developers.
 //
-// Repo 1770468 is a fork of Microsoft's winget-pkgs sitting under the `stellar/`
-// GitHub org, so crypto-ecosystems attributes its upstream package-manifest
-// contributors to Stellar — inflating eco_mads.all_devs by ~23% since 2026-04-02.
-// The chart draws a "clean" series alongside the official one using the counts
-// below. We expect Electric Capital to fix the attribution; when they do, DELETE
-// this block, its two call sites in getMad(), PhantomRow + DailyRow.winget_only_devs
-// in types.ts, and the clean line + bar stack in MadChart.svelte.
-//
-// "Clean" is a DEVELOPER-level rule, not a repo-level filter: a developer is
-// dropped only if the fork was their ONLY activity in the window. Someone who
-// also touched a real repo stays, with all their commits. This matches the
-// clean-mad skill and every report in docs/clean-mads/.
+// Each rule matches repo_day rows by repo id, GitHub owner glob or developer id. A
+// developer leaves the "clean" window only when EVERY row of theirs in it matched —
+// the method behind every report in docs/clean-mads/ — and `repo`-mode rules also
+// strip matched commits from developers who stay. ExclusionRule in types.ts has the
+// details. Retiring a rule is a data change in exclusions.json, not a code change.
 // ---------------------------------------------------------------------------
-const PHANTOM_REPO_ID = 1770468;
-
-/** Rolling 28-day count of developers whose ONLY window activity was the fork.
- *  Restricting the rolling joins to developers who ever touched the fork keeps this
- *  cheap (~10ms over the full series). Zero-count days are dropped — only ~112 days
- *  in the whole history have any. */
-async function getPhantom(days: number): Promise<PhantomRow[]> {
-    return query<PhantomRow>(
-        `WITH cand AS (SELECT DISTINCT dev FROM repo_day WHERE repo_id = ?),
-       wd AS (SELECT DISTINCT dev, day FROM repo_day WHERE repo_id = ?),
-       od AS (SELECT DISTINCT r.dev, r.day FROM repo_day r JOIN cand USING (dev)
-              WHERE r.repo_id <> ?),
+
+/** A rule with its owner globs resolved to repo ids against the extract. */
+interface ResolvedRule {
+    rule: ExclusionRule;
+    repoIds: number[];
+}
+
+async function resolveRules(): Promise<ResolvedRule[]> {
+    const rules = await loadExclusions();
+    const c = rules.some((r) => r.owners?.length) ? await repoCols() : null;
+    return Promise.all(
+        rules.map(async (rule) => {
+            const owners = rule.owners ?? [];
+            const owned =
+                c && owners.length
+                    ? await query<{ id: number }>(
+                          `SELECT "${c.id}" AS id FROM repos
+         WHERE ${owners.map(() => `lower(regexp_extract("${c.name}", '([^/]+)/[^/]+$', 1)) GLOB lower(?)`).join(' OR ')}`,
+                          owners,
+                      )
+                    : [];
+            return {
+                rule,
+                repoIds: [...new Set([...(rule.repos ?? []), ...owned.map((r) => r.id)])],
+            };
+        }),
+    );
+}
+
+/** SQL predicate over an `rd` (repo_day) row: does any of `rules` match it? Ids are
+ *  validated integers (exclusions.ts), so inlining them is safe. FALSE for no rules. */
+function matchSql(rules: ResolvedRule[]): string {
+    const parts = rules.flatMap(({ rule, repoIds }) => [
+        ...(repoIds.length ? [`rd.repo_id IN (${repoIds.join(', ')})`] : []),
+        ...(rule.devs?.length ? [`rd.dev IN (${rule.devs.join(', ')})`] : []),
+    ]);
+    return parts.length ? `(${parts.join(' OR ')})` : 'FALSE';
+}
+
+/** SQL CASE naming the first rule that matches an `rd` row, else NULL. With `agg` it
+ *  names the first rule matching EVERY row of the group — 'multiple' when only the
+ *  rules together cover it. Rule ids are validated slugs, so inlining them is safe. */
+function ruleCase(rules: ResolvedRule[], agg = false): string {
+    if (!rules.length) return 'NULL';
+    const test = (e: string) => (agg ? `bool_and(${e})` : e);
+    const whens = rules.map((r) => `WHEN ${test(matchSql([r]))} THEN '${r.rule.id}'`);
+    if (agg && rules.length > 1) whens.push(`WHEN ${test(matchSql(rules))} THEN 'multiple'`);
+    return `CASE ${whens.join(' ')} END`;
+}
+
+/** dev_day with rule-matched activity taken out, as a FROM-able relation (dev, day,
+ *  num_commits). With no active rules it is dev_day itself. */
+function cleanDevDay(rules: ResolvedRule[]): string {
+    return rules.length
+        ? `(SELECT rd.dev, rd.day, sum(rd.num_commits) AS num_commits FROM repo_day rd
+       WHERE NOT ${matchSql(rules)} GROUP BY 1, 2)`
+        : 'dev_day';
+}
+
+/** Rolling 28-day slice that `rules` take out of the window (see ExclusionRow).
+ *  Restricting the rolling join to developers who ever matched keeps this cheap
+ *  (~10ms over the full series for the winget-pkgs fork). */
+async function getExcluded(rules: ResolvedRule[], days: number): Promise<ExclusionRow[]> {
+    return query<ExclusionRow>(
+        `WITH m AS (SELECT rd.dev, rd.day, rd.num_commits,
+                    ${matchSql(rules)} AS hit,
+                    ${matchSql(rules.filter((r) => r.rule.mode === 'repo'))} AS cut
+             FROM repo_day rd),
+       cand AS (SELECT DISTINCT dev FROM m WHERE hit),
+       cd AS (SELECT m.dev, m.day, bool_and(m.hit) AS all_hit, sum(m.num_commits) AS c_all,
+                     COALESCE(sum(m.num_commits) FILTER (WHERE m.cut), 0) AS c_cut
+              FROM m JOIN cand USING (dev) GROUP BY 1, 2),
        anchors AS (SELECT day AS d FROM eco_mads
-                   WHERE day >= (SELECT min(day) FROM wd)
+                   WHERE day >= (SELECT min(day) FROM m WHERE hit)
                      AND day > (SELECT max(day) FROM eco_mads) - ?),
-       hasw AS (SELECT a.d, wd.dev FROM anchors a
-                JOIN wd ON wd.day > a.d - 28 AND wd.day <= a.d GROUP BY 1, 2),
-       haso AS (SELECT a.d, od.dev FROM anchors a
-                JOIN od ON od.day > a.d - 28 AND od.day <= a.d GROUP BY 1, 2)
-     SELECT hasw.d AS day, count(*) FILTER (WHERE haso.dev IS NULL) AS devs
-     FROM hasw LEFT JOIN haso ON haso.d = hasw.d AND haso.dev = hasw.dev
-     GROUP BY 1 HAVING devs > 0 ORDER BY 1`,
-        [PHANTOM_REPO_ID, PHANTOM_REPO_ID, PHANTOM_REPO_ID, days],
+       w AS (SELECT a.d, cd.dev, bool_and(cd.all_hit) AS gone,
+                    sum(cd.c_all) AS c_all, sum(cd.c_cut) AS c_cut
+             FROM anchors a JOIN cd ON cd.day > a.d - 28 AND cd.day <= a.d GROUP BY 1, 2)
+     SELECT d AS day, count(*) FILTER (WHERE gone) AS devs,
+            sum(CASE WHEN gone THEN c_all ELSE c_cut END) AS commits
+     FROM w GROUP BY 1 HAVING devs > 0 OR commits > 0 ORDER BY 1`,
+        [days],
     );
 }
 
@@ -83,30 +193,63 @@ async function hasDevelopers(): Promise<boolean> {
     );
 }
 
+// Developer classes, Electric Capital-style: a dev in the 28-day window is classed by
+// their active days over the trailing CLASS_DAYS (three 28-day months). Full-time
+// averages 10+ active days a month, one-time committed on a single day, and everyone
+// else is part-time. An approximation of EC's contribution ranks (eco_mads carries the
+// official split), but recomputable on clean activity and per developer.
+const CLASS_DAYS = 84;
+const FULL_TIME_DAYS = 30;
+const classCase = (activeDays: string) =>
+    `CASE WHEN ${activeDays} >= ${FULL_TIME_DAYS} THEN 'full_time'
+          WHEN ${activeDays} > 1 THEN 'part_time' ELSE 'one_time' END`;
+// The class series is a rolling join per anchor day, so it's capped like getDiagnose.
+const CLASS_RANGE = 400;
+
+async function getClasses(rules: ResolvedRule[], days: number): Promise<ClassRow[]> {
+    const R = Math.min(days, CLASS_RANGE);
+    return query<ClassRow>(`
+    WITH dd AS (SELECT dev, day FROM ${cleanDevDay(rules)}),
+    anchors AS (SELECT DISTINCT day AS d FROM dev_day
+                WHERE day > (SELECT max(day) FROM dev_day) - ${R}),
+    w AS (SELECT a.d, dd.dev, count(*) AS active,
+                 count(*) FILTER (WHERE dd.day > a.d - 28) AS recent
+          FROM anchors a JOIN dd ON dd.day > a.d - ${CLASS_DAYS} AND dd.day <= a.d
+          GROUP BY 1, 2),
+    c AS (SELECT d, ${classCase('active')} AS cls FROM w WHERE recent > 0)
+    SELECT d AS day,
+           count(*) FILTER (WHERE cls = 'full_time') AS full_time,
+           count(*) FILTER (WHERE cls = 'part_time') AS part_time,
+           count(*) FILTER (WHERE cls = 'one_time') AS one_time
+    FROM c GROUP BY 1 ORDER BY 1`);
+}
+
 /** 28-day windowed MAD series + daily overlay + fresher API points + provenance. */
 export async function getMad(days: number): Promise<MadResponse> {
     const windowed = await query<WindowedRow>(
-        `SELECT day, all_devs, exclusive_devs, multichain_devs, num_commits
+        `SELECT day, all_devs, exclusive_devs, multichain_devs, num_commits,
+            full_time_devs, part_time_devs, one_time_devs
      FROM eco_mads
      WHERE day > (SELECT max(day) FROM eco_mads) - ?
      ORDER BY day`,
         [days],
     );
 
-    // `winget_only_devs` is the phantom slice OF `daily_active_devs` (which stays the
-    // total), so the chart can stack the bars. TEMPORARY — see PHANTOM_REPO_ID above.
+    // `excluded_devs` is the rule-matched slice OF `daily_active_devs` (which stays the
+    // total), so the chart can stack the bars.
+    const rules = await resolveRules();
     const daily = await query<DailyRow>(
         `WITH f AS (
-       SELECT day, dev, max(CASE WHEN repo_id <> ? THEN 1 ELSE 0 END) AS other
-       FROM repo_day GROUP BY 1, 2),
-     p AS (SELECT day, count(*) FILTER (WHERE other = 0) AS winget_only_devs
+       SELECT rd.day, rd.dev, bool_and(${matchSql(rules)}) AS gone
+       FROM repo_day rd GROUP BY 1, 2),
+     p AS (SELECT day, count(*) FILTER (WHERE gone) AS excluded_devs
            FROM f GROUP BY 1)
      SELECT da.day, da.daily_active_devs, da.daily_commits,
-            COALESCE(p.winget_only_devs, 0) AS winget_only_devs
+            COALESCE(p.excluded_devs, 0) AS excluded_devs
      FROM daily_activity da LEFT JOIN p ON p.day = da.day
      WHERE da.day > (SELECT max(day) FROM daily_activity) - ?
      ORDER BY da.day`,
-        [PHANTOM_REPO_ID, days],
+        [days],
     );
 
     let api: ApiRow[] = [];
@@ -120,9 +263,18 @@ export async function getMad(days: number): Promise<MadResponse> {
         /* mad_api_history may not exist yet */
     }
 
-    const phantom = await getPhantom(days); // TEMPORARY — see PHANTOM_REPO_ID above
+    // Each rule is also measured on its own so its impact reads separately on the chart.
+    const exclusions: Exclusions = { rules: rules.map((r) => r.rule), combined: [], byRule: {} };
+    if (rules.length) {
+        exclusions.combined = await getExcluded(rules, days);
+        for (const r of rules)
+            exclusions.byRule[r.rule.id] =
+                rules.length === 1 ? exclusions.combined : await getExcluded([r], days);
+    }
+
+    const classes = await getClasses(rules, days);
 
-    return { windowed, daily, api, phantom, meta: await meta() };
+    return { windowed, daily, api, exclusions, classes, meta: await meta() };
 }
 
 /** Repo leaderboard over a trailing window: devs + commits per repo, with names + URLs. */
@@ -149,16 +301,67 @@ export async function getRepos(days: number, by: string): Promise<ReposResponse>
     return { rows, days, order: order as 'devs' | 'commits' };
 }
 
-/** Per-repo devs+commits for the 28/60/90-day windows at once, for repos active in
- *  the last 90 days. The page loads this once and the leaderboard derives the chosen
- *  window + sort client-side (no re-query per toggle). */
+/** Contributor health (RepoHealth) per repo for the 28/60/90-day windows, for repos with
+ *  commits in the last 180 days that match `where` (a repo_day predicate). Concentration
+ *  is measured as a Herfindahl index (`hhi`) rather than a Gini: Gini reads 0 — perfectly
+ *  even — for a repo one person carries alone, which is the case this is meant to flag. */
+async function getRepoHealth(
+    where = 'TRUE',
+    params: unknown[] = [],
+): Promise<Map<number, RepoHealthWindows>> {
+    const rows = await query<RepoHealth & { repo_id: number; w: 28 | 60 | 90; idle: number }>(
+        `WITH h AS (SELECT max(day) AS m FROM repo_day),
+     r AS (SELECT repo_id, dev, day, num_commits FROM repo_day
+           WHERE ${where} AND day > (SELECT m FROM h) - 180),
+     idle AS (SELECT repo_id, (SELECT m FROM h) - max(day) AS idle FROM r GROUP BY 1),
+     pd AS (
+       SELECT r.repo_id, w.w, r.dev,
+         COALESCE(sum(r.num_commits) FILTER (WHERE r.day > (SELECT m FROM h) - w.w), 0) AS c,
+         bool_or(r.day > (SELECT m FROM h) - w.w) AS cur,
+         bool_or(r.day <= (SELECT m FROM h) - w.w) AS prior
+       FROM r, (SELECT unnest([28, 60, 90]) AS w) w
+       WHERE r.day > (SELECT m FROM h) - 2 * w.w GROUP BY 1, 2, 3),
+     rk AS (
+       SELECT *,
+         sum(c) OVER (PARTITION BY repo_id, w ORDER BY c DESC, dev ROWS UNBOUNDED PRECEDING) AS cum,
+         sum(c) OVER (PARTITION BY repo_id, w) AS tot,
+         row_number() OVER (PARTITION BY repo_id, w ORDER BY c DESC, dev) AS k
+       FROM pd)
+     SELECT rk.repo_id, rk.w, any_value(idle.idle) AS idle,
+       min(k) FILTER (WHERE tot > 0 AND cum * 2 >= tot) AS bus_factor,
+       max(c) / nullif(max(tot), 0) AS top_share,
+       sum(pow(c / nullif(tot, 0), 2)) AS hhi,
+       count(*) FILTER (WHERE prior AND cur) / nullif(count(*) FILTER (WHERE prior), 0)
+         AS retention
+     FROM rk JOIN idle USING (repo_id) GROUP BY 1, 2`,
+        params,
+    );
+    const out = new Map<number, RepoHealthWindows>();
+    for (const { repo_id, w, idle, ...hl } of rows) {
+        if (!out.has(repo_id))
+            out.set(repo_id, { h28: null, h60: null, h90: null, idle_days: idle });
+        // no commits this window: nothing to measure concentration over
+        if (hl.bus_factor != null) out.get(repo_id)![`h${w}`] = hl;
+    }
+    return out;
+}
+
+/** Weekly samples in a repo leaderboard sparkline (half a year). */
+const SPARK_WEEKS = 26;
+
+/** Per-repo devs+commits for the 28/60/90-day windows at once, plus devs in the window
+ *  before each (for the momentum modes), for repos active in the last 180 days — so a
+ *  repo that went quiet this window is still there. The page loads this once and the
+ *  leaderboard derives the chosen window + sort client-side (no re-query per toggle).
+ *  Repos matched by an exclusion rule carry its id so the leaderboard can hide them. */
 export async function getRepoAggregates(): Promise<RepoAgg[]> {
     const rc = await query<{ name: string }>("PRAGMA table_info('repos')");
     const names = rc.map((r) => r.name);
     const idCol = names.includes('id') ? 'id' : 'repo_id';
     const nameCol = ['name', 'repo_url', 'url'].find((n) => names.includes(n)) || idCol;
     const urlCol = ['link', 'repo_url', 'url'].find((n) => names.includes(n)) || nameCol;
-    return query<RepoAgg>(`
+    const rules = await resolveRules();
+    const rows = await query<Omit<RepoAgg, 'excluded' | 'spark' | keyof RepoHealthWindows>>(`
     WITH h AS (SELECT max(day) AS m FROM repo_day),
     w AS (
       SELECT repo_id, max(day) AS last_active_day,
@@ -167,19 +370,48 @@ export async function getRepoAggregates(): Promise<RepoAgg[]> {
         COUNT(DISTINCT dev) FILTER (WHERE day > (SELECT m FROM h) - 60)        AS d60,
         COALESCE(SUM(num_commits) FILTER (WHERE day > (SELECT m FROM h) - 60), 0) AS c60,
         COUNT(DISTINCT dev) FILTER (WHERE day > (SELECT m FROM h) - 90)        AS d90,
-        COALESCE(SUM(num_commits) FILTER (WHERE day > (SELECT m FROM h) - 90), 0) AS c90
+        COALESCE(SUM(num_commits) FILTER (WHERE day > (SELECT m FROM h) - 90), 0) AS c90,
+        COUNT(DISTINCT dev) FILTER (WHERE day <= (SELECT m FROM h) - 28
+                                      AND day > (SELECT m FROM h) - 56)     AS p28,
+        COUNT(DISTINCT dev) FILTER (WHERE day <= (SELECT m FROM h) - 60
+                                      AND day > (SELECT m FROM h) - 120)    AS p60,
+        COUNT(DISTINCT dev) FILTER (WHERE day <= (SELECT m FROM h) - 90)    AS p90
       FROM repo_day
-      WHERE day > (SELECT m FROM h) - 90
+      WHERE day > (SELECT m FROM h) - 180
       GROUP BY repo_id)
-    SELECT rp."${urlCol}" AS url, rp."${nameCol}" AS repo, w.last_active_day,
-           w.d28, w.c28, w.d60, w.c60, w.d90, w.c90
+    SELECT w.repo_id, rp."${urlCol}" AS url, rp."${nameCol}" AS repo, w.last_active_day,
+           w.d28, w.c28, w.d60, w.c60, w.d90, w.c90, w.p28, w.p60, w.p90
     FROM w LEFT JOIN repos rp ON rp."${idCol}" = w.repo_id`);
+    // sparklines: rolling 28-day devs at each weekly sample k weeks before the horizon
+    const samples = await query<{ repo_id: number; k: number; devs: number }>(`
+    WITH h AS (SELECT max(day) AS m FROM repo_day),
+    s AS (SELECT k, (SELECT m FROM h) - 7 * k AS d
+          FROM (SELECT unnest(range(0, ${SPARK_WEEKS}))::INTEGER AS k)),
+    r AS (SELECT repo_id, dev, day FROM repo_day
+          WHERE day > (SELECT m FROM h) - ${7 * SPARK_WEEKS + 28})
+    SELECT r.repo_id, s.k, count(DISTINCT r.dev) AS devs
+    FROM s JOIN r ON r.day > s.d - 28 AND r.day <= s.d
+    GROUP BY 1, 2`);
+    const spark = new Map<number, number[]>();
+    for (const s of samples) {
+        if (!spark.has(s.repo_id)) spark.set(s.repo_id, Array(SPARK_WEEKS).fill(0));
+        spark.get(s.repo_id)![SPARK_WEEKS - 1 - s.k] = s.devs;
+    }
+    const health = await getRepoHealth();
+    return rows.map((r) => ({
+        ...r,
+        ...(health.get(r.repo_id) ?? { h28: null, h60: null, h90: null, idle_days: 180 }),
+        spark: spark.get(r.repo_id) ?? Array(SPARK_WEEKS).fill(0),
+        excluded: rules.find((x) => x.repoIds.includes(r.repo_id))?.rule.id ?? null,
+    }));
 }
 
 /** Top developers (active in 90d, non-bot) with commits/active-days/repos-touched per
  *  28/60/90-day window, joined to the `developers` identity table (name + GitHub login).
+ *  `excluded` names the rule that drops a dev whose 90-day activity all matched one.
  *  Returns [] if `developers` hasn't been built yet (`stellar_odd.py resolve-devs`). */
 export async function getDevAggregates(): Promise<DevAgg[]> {
+    const rules = await resolveRules();
     try {
         return await query<DevAgg>(`
       WITH hd AS (SELECT max(day) m FROM dev_day),
@@ -191,18 +423,21 @@ export async function getDevAggregates(): Promise<DevAgg[]> {
           COALESCE(SUM(num_commits) FILTER (WHERE day > (SELECT m FROM hd)-60), 0) c60,
           COUNT(DISTINCT day)       FILTER (WHERE day > (SELECT m FROM hd)-60)    a60,
           COALESCE(SUM(num_commits) FILTER (WHERE day > (SELECT m FROM hd)-90), 0) c90,
-          COUNT(DISTINCT day)       FILTER (WHERE day > (SELECT m FROM hd)-90)    a90
+          COUNT(DISTINCT day)       FILTER (WHERE day > (SELECT m FROM hd)-90)    a90,
+          COUNT(DISTINCT day) FILTER (WHERE day > (SELECT m FROM hd)-${CLASS_DAYS}) a_cls
         FROM dev_day WHERE day > (SELECT m FROM hd)-90 GROUP BY dev),
       rr AS (
         SELECT dev,
           COUNT(DISTINCT repo_id) FILTER (WHERE day > (SELECT m FROM hr)-28) r28,
           COUNT(DISTINCT repo_id) FILTER (WHERE day > (SELECT m FROM hr)-60) r60,
-          COUNT(DISTINCT repo_id) FILTER (WHERE day > (SELECT m FROM hr)-90) r90
-        FROM repo_day WHERE day > (SELECT m FROM hr)-90 GROUP BY dev)
+          COUNT(DISTINCT repo_id) FILTER (WHERE day > (SELECT m FROM hr)-90) r90,
+          ${ruleCase(rules, true)} AS excluded
+        FROM repo_day rd WHERE day > (SELECT m FROM hr)-90 GROUP BY dev)
       SELECT dv.canonical_developer_id AS dev, dv.name, dv.login,
              dd.c28, dd.a28, COALESCE(rr.r28, 0) r28,
              dd.c60, dd.a60, COALESCE(rr.r60, 0) r60,
-             dd.c90, dd.a90, COALESCE(rr.r90, 0) r90
+             dd.c90, dd.a90, COALESCE(rr.r90, 0) r90, rr.excluded,
+             CASE WHEN dd.a28 > 0 THEN ${classCase('dd.a_cls')} END AS dev_class
       FROM dd
       JOIN developers dv ON dv.canonical_developer_id = dd.dev AND NOT dv.is_bot
       LEFT JOIN rr ON rr.dev = dd.dev
@@ -266,7 +501,455 @@ export async function getDiagnose(days: number): Promise<DiagnoseResponse> {
       AND day > (SELECT max(day) FROM daily_activity) - ${R}
     ORDER BY day`);
 
-    return { cohort, intensity, surgeDays, window: W };
+    return { cohort, intensity, surgeDays, changes: await getChanges(), window: W };
+}
+
+// ---------------------------------------------------------------------------
+// Level shifts: sustained drops (and rises that stick) in the windowed MAD, official
+// and clean — what surgeDays can't see, since a drop is never 2× anything.
+//
+// A two-sided CUSUM per series. A SHIFT_REF-day reference stretch sets the level (its
+// mean) and noise (its sd, floored at SHIFT_FLOOR of the level: the 28-day window is
+// smooth enough that a flat stretch would otherwise trip on a handful of devs). Each
+// later day adds its deviation, less SHIFT_K sds of slack, to an upper and a lower sum
+// clamped at zero; a sum past SHIFT_H sds signals, dated to the day that sum last left
+// zero. The shift runs on to the furthest point it reaches within SHIFT_REF days of
+// the signal (the window keeps sliding for a while), and detection restarts with a
+// fresh reference from there; a signal in the same direction within two reference
+// stretches of the last is that shift still moving and extends it. Shifts that end up
+// under SHIFT_MIN of the level are noise. Detection always starts at the first day of
+// the extract, not a window back from the latest, so the reference stretches don't move
+// as days are added: a shift keeps its start (and its alert id), and no day's alerts
+// depend on the chart range that asked for them.
+// ---------------------------------------------------------------------------
+const SHIFT_REF = 14;
+const SHIFT_K = 0.5;
+const SHIFT_H = 5;
+const SHIFT_FLOOR = 0.02;
+const SHIFT_MIN = 0.075;
+
+function detectShifts(points: ChartPoint[], series: ChangePoint['series']): ChangePoint[] {
+    const out: ChangePoint[] = [];
+    let last = null as ChangePoint | null; // the shift a same-direction signal extends
+    let from = 0; // start of the current reference stretch
+    while (from + SHIFT_REF < points.length) {
+        const ref = points.slice(from, from + SHIFT_REF).map((p) => p.value);
+        const level = ref.reduce((a, b) => a + b, 0) / ref.length;
+        const sd = Math.max(
+            Math.sqrt(ref.reduce((a, b) => a + (b - level) ** 2, 0) / ref.length),
+            SHIFT_FLOOR * level,
+            1,
+        );
+        let up = 0,
+            down = 0,
+            upFrom = from + SHIFT_REF,
+            downFrom = upFrom,
+            i = from + SHIFT_REF;
+        for (; i < points.length; i++) {
+            const z = (points[i].value - level) / sd;
+            up = Math.max(0, up + z - SHIFT_K);
+            down = Math.max(0, down - z - SHIFT_K);
+            if (up === 0) upFrom = i + 1;
+            if (down === 0) downFrom = i + 1;
+            if (up > SHIFT_H || down > SHIFT_H) break;
+        }
+        if (i === points.length) break;
+        const direction = up > SHIFT_H ? 'rise' : 'drop';
+        const start = points[up > SHIFT_H ? upFrom : downFrom].day;
+        const day = points[i].day;
+        let end = i;
+        for (let j = i + 1; j <= Math.min(i + SHIFT_REF, points.length - 1); j++)
+            if (
+                direction === 'rise'
+                    ? points[j].value > points[end].value
+                    : points[j].value < points[end].value
+            )
+                end = j;
+        const { day: through, value } = points[end];
+        if (
+            last?.direction === direction &&
+            Date.parse(start) - Date.parse(last.through) <= 2 * SHIFT_REF * 86400000
+        ) {
+            last.through = through;
+            last.after = value;
+        } else {
+            last = {
+                series,
+                direction,
+                start,
+                day,
+                through,
+                before: Math.round(level),
+                after: value,
+                change: 0,
+            };
+            out.push(last);
+        }
+        from = end;
+    }
+    for (const c of out)
+        c.change = c.before > 0 ? Math.round((c.after / c.before - 1) * 1000) / 1000 : 0;
+    return out.filter(
+        (c) =>
+            Math.abs(c.change) >= SHIFT_MIN &&
+            Math.sign(c.change) === (c.direction === 'drop' ? -1 : 1),
+    );
+}
+
+/** Level shifts in the windowed MAD and, when exclusion rules are active, the clean
+ *  line, ordered by detection day. A clean shift dated within a week of an official one
+ *  in the same direction is the same shift: it's reported once, as 'both'. */
+export async function getChanges(): Promise<ChangePoint[]> {
+    const rules = await resolveRules();
+    // exclusions.json can change without a reload, so the rules are part of the key
+    const key = rules.map((r) => ({ ...r.rule, repoIds: r.repoIds }));
+    return derived(`changes:${JSON.stringify(key)}`, () => detectChanges(rules));
+}
+
+async function detectChanges(rules: ResolvedRule[]): Promise<ChangePoint[]> {
+    const official = (
+        await query<{ day: string; all_devs: number }>(
+            'SELECT day, all_devs FROM eco_mads ORDER BY day',
+        )
+    ).map((r) => ({ day: r.day, value: r.all_devs }));
+    const changes = detectShifts(official, 'official');
+    if (rules.length) {
+        // 100000 days is "all", as on the chart's range toggle
+        const ex = new Map((await getExcluded(rules, 100000)).map((r) => [r.day, r.devs]));
+        const clean = official.map((p) => ({ day: p.day, value: p.value - (ex.get(p.day) ?? 0) }));
+        for (const c of detectShifts(clean, 'clean')) {
+            const same = changes.find(
+                (o) =>
+                    o.series === 'official' &&
+                    o.direction === c.direction &&
+                    Math.abs(Date.parse(o.start) - Date.parse(c.start)) <= 7 * 86400000,
+            );
+            if (same) same.series = 'both';
+            else changes.push(c);
+        }
+    }
+    return changes.sort((a, b) => a.day.localeCompare(b.day) || a.series.localeCompare(b.series));
+}
+
+/** Window-to-window MAD delta: which devs entered or left the 28-day window between two
+ *  anchor days, and the repos they were active on (in the window they count toward).
+ *  Per-repo counts overlap — a dev on three repos counts in each — so the owner
+ *  breakdown credits every dev to one primary repo (most commits) and sums exactly to
+ *  the delta, which is what the waterfall draws. */
+export async function getCompare(from: string, to: string): Promise<CompareDetail> {
+    const W = 28;
+    const c = await repoCols();
+    const rules = await resolveRules();
+    const hasDev = await hasDevelopers();
+    // shared prefix: both windows, the devs that moved, and their repo activity
+    const base = `
+    WITH p AS (SELECT ?::DATE AS f, ?::DATE AS t),
+    a AS (SELECT DISTINCT dev FROM dev_day
+          WHERE day > (SELECT f FROM p) - ${W} AND day <= (SELECT f FROM p)),
+    b AS (SELECT DISTINCT dev FROM dev_day
+          WHERE day > (SELECT t FROM p) - ${W} AND day <= (SELECT t FROM p)),
+    moved AS (SELECT dev, 'entered' AS side, (SELECT t FROM p) AS anchor FROM b ANTI JOIN a USING (dev)
+              UNION ALL
+              SELECT dev, 'left' AS side, (SELECT f FROM p) AS anchor FROM a ANTI JOIN b USING (dev)),
+    act AS (SELECT m.dev, m.side, rd.repo_id, sum(rd.num_commits) AS commits
+            FROM moved m JOIN repo_day rd
+              ON rd.dev = m.dev AND rd.day > m.anchor - ${W} AND rd.day <= m.anchor
+            GROUP BY 1, 2, 3)`;
+    const params = [from, to];
+    const owner = `regexp_extract(rp."${c.name}", '([^/]+)/[^/]+$', 1)`;
+
+    const totals = (
+        await query<{ from_devs: number; to_devs: number; entered: number; left: number }>(
+            `${base}
+     SELECT (SELECT count(*) FROM a) AS from_devs, (SELECT count(*) FROM b) AS to_devs,
+            count(*) FILTER (WHERE side = 'entered') AS entered,
+            count(*) FILTER (WHERE side = 'left') AS "left"
+     FROM moved`,
+            params,
+        )
+    )[0];
+
+    const official = await query<{ day: string; all_devs: number }>(
+        'SELECT day, all_devs FROM eco_mads WHERE day IN (?::DATE, ?::DATE)',
+        params,
+    );
+
+    const idJoin = hasDev ? 'LEFT JOIN developers dv ON dv.canonical_developer_id = m.dev' : '';
+    const devs = (
+        await query<Omit<CompareDev, 'repos'> & { repos: string | null }>(
+            `${base}
+     SELECT m.dev, m.side, ${hasDev ? 'any_value(dv.name)' : 'NULL'} AS "name",
+            ${hasDev ? 'any_value(dv.login)' : 'NULL'} AS "login",
+            COALESCE(sum(x.commits), 0) AS commits,
+            string_agg(rp."${c.name}", ',' ORDER BY x.commits DESC) AS repos
+     FROM moved m LEFT JOIN act x ON x.dev = m.dev
+     LEFT JOIN repos rp ON rp."${c.id}" = x.repo_id ${idJoin}
+     GROUP BY m.dev, m.side
+     QUALIFY row_number() OVER (PARTITION BY m.side ORDER BY sum(x.commits) DESC NULLS LAST,
+                                m.dev) <= 300
+     ORDER BY m.side, sum(x.commits) DESC NULLS LAST`,
+            params,
+        )
+    ).map((d) => ({ ...d, repos: d.repos ? d.repos.split(',') : [] }));
+
+    const repos = (
+        await query<Omit<CompareRepo, 'excluded'>>(
+            `${base}
+     SELECT x.repo_id, rp."${c.name}" AS repo, rp."${c.url}" AS url,
+            count(DISTINCT x.dev) FILTER (WHERE x.side = 'entered') AS entered,
+            count(DISTINCT x.dev) FILTER (WHERE x.side = 'left') AS "left",
+            entered - "left" AS net
+     FROM act x LEFT JOIN repos rp ON rp."${c.id}" = x.repo_id
+     GROUP BY x.repo_id, rp."${c.name}", rp."${c.url}"
+     ORDER BY abs(net) DESC, entered + "left" DESC LIMIT 60`,
+            params,
+        )
+    ).map((r) => ({
+        ...r,
+        excluded: rules.find((x) => x.repoIds.includes(r.repo_id))?.rule.id ?? null,
+    }));
+
+    const owners = await query<CompareOwner>(
+        `${base},
+     prim AS (SELECT dev, side, repo_id FROM act
+              QUALIFY row_number() OVER (PARTITION BY dev ORDER BY commits DESC, repo_id) = 1)
+     SELECT COALESCE(${owner}, '(no repo)') AS owner,
+            count(*) FILTER (WHERE m.side = 'entered') AS entered,
+            count(*) FILTER (WHERE m.side = 'left') AS "left",
+            entered - "left" AS net
+     FROM moved m LEFT JOIN prim USING (dev)
+     LEFT JOIN repos rp ON rp."${c.id}" = prim.repo_id
+     GROUP BY 1 ORDER BY abs(net) DESC, entered + "left" DESC`,
+        params,
+    );
+
+    const at = (day: string) => official.find((o) => o.day === day)?.all_devs ?? null;
+    return {
+        from,
+        to,
+        ...(totals ?? { from_devs: 0, to_devs: 0, entered: 0, left: 0 }),
+        official_from: at(from),
+        official_to: at(to),
+        owners,
+        repos,
+        devs,
+    };
+}
+
+/** Exit schedule: how the 28-day MAD would decay over the next 28 days if nobody new
+ *  committed. A dev last active on day L leaves the window on L + 28, so the projection
+ *  is the latest official all_devs minus the cumulative roll-offs. Per roll-off day, the
+ *  repos those devs touched in the window (top 5 each) say whose contributors are going. */
+export async function getRollOff(): Promise<RollOff> {
+    const W = 28;
+    const anchor = (
+        await query<{ day: string; all_devs: number }>(
+            'SELECT day, all_devs FROM eco_mads ORDER BY day DESC LIMIT 1',
+        )
+    )[0];
+    if (!anchor) return { from: '', all_devs: 0, days: [], repos: [] };
+
+    const counts = await query<{ day: string; devs: number }>(`
+    WITH h AS (SELECT max(day) AS m FROM dev_day),
+    l AS (SELECT dev, max(day) AS last_day FROM dev_day
+          WHERE day > (SELECT m FROM h) - ${W} GROUP BY dev)
+    SELECT (last_day + ${W})::DATE AS day, count(*) AS devs FROM l GROUP BY 1 ORDER BY 1`);
+
+    const c = await repoCols();
+    const repos = await query<RollOffRepo>(`
+    WITH h AS (SELECT max(day) AS m FROM dev_day),
+    l AS (SELECT dev, max(day) AS last_day FROM dev_day
+          WHERE day > (SELECT m FROM h) - ${W} GROUP BY dev),
+    g AS (SELECT (l.last_day + ${W})::DATE AS day, rd.repo_id, count(DISTINCT rd.dev) AS devs
+          FROM l JOIN repo_day rd ON rd.dev = l.dev AND rd.day > (SELECT m FROM h) - ${W}
+          GROUP BY 1, 2),
+    r AS (SELECT * FROM g
+          QUALIFY row_number() OVER (PARTITION BY day ORDER BY devs DESC, repo_id) <= 5)
+    SELECT r.day, rp."${c.name}" AS repo, rp."${c.url}" AS url, r.devs
+    FROM r LEFT JOIN repos rp ON rp."${c.id}" = r.repo_id
+    ORDER BY r.day, r.devs DESC`);
+
+    // every day of the horizon, zeros included, so the dashed line is continuous
+    const byDay = new Map(counts.map((r) => [r.day, r.devs]));
+    const days: RollOffDay[] = [];
+    let left = anchor.all_devs;
+    const t0 = Date.parse(anchor.day);
+    for (let k = 1; k <= W; k++) {
+        const day = new Date(t0 + k * 86400000).toISOString().slice(0, 10);
+        const devs = byDay.get(day) ?? 0;
+        left -= devs;
+        days.push({ day, devs, projected: Math.max(0, left) });
+    }
+    return { from: anchor.day, all_devs: anchor.all_devs, days, repos };
+}
+
+// ---------------------------------------------------------------------------
+// Gap-week nowcast. The parquet and the API both trail today by ~7 days and no outside
+// source fills that gap (docs/nowcast-calibration-findings.md), so this estimates it
+// from the extract alone. The window ending k days past the horizon H holds
+//   - H's devs who were active in its last 28−k days: known exactly, as the official
+//     all_devs less dev_day's roll-offs (the exit schedule's dotted line), plus
+//   - arrivals: devs active in (H, H+k] but not in that stretch.
+// Arrivals are the same quantity measured from every anchor day in the
+// NOWCAST_LOOKBACK days before H, weighted toward recent anchors (half-life
+// NOWCAST_HALF_LIFE days) and rescaled by daily_activity's weekday profile, since the k
+// days ahead may hold more or fewer weekdays than an anchor's did.
+//
+// The band is a backtest: the model re-run as of each of the last NOWCAST_BACKTEST
+// settled horizons, seeing only data up to it, and scored per lead against the
+// official all_devs that later landed. It spans the central NOWCAST_COVERAGE of those
+// errors.
+// ---------------------------------------------------------------------------
+const NOWCAST_DAYS = 7;
+const NOWCAST_LOOKBACK = 56;
+const NOWCAST_HALF_LIFE = 14;
+const NOWCAST_BACKTEST = 56;
+const NOWCAST_COVERAGE = 0.8;
+
+interface NowcastInputs {
+    /** `${day}|${k}` → devs active in (day+k−28, day]: k=0 is day's full window. */
+    held: Map<string, number>;
+    official: Map<string, number>;
+    daily: { day: string; devs: number }[];
+}
+
+/** Point nowcast for leads 1..NOWCAST_DAYS from horizon `h`, using nothing after `h`. */
+function nowcastAsOf(h: string, inp: NowcastInputs): Omit<NowcastDay, 'lo' | 'hi'>[] | null {
+    const held = (day: string, k: number) => inp.held.get(`${day}|${k}`);
+    const base = inp.official.get(h);
+    if (base == null || held(h, 0) == null) return null;
+
+    // weekday factors over the 12 weeks to h (1 = an average day), worked out once: the
+    // loop below asks for the same spans of days over and over
+    const recent = inp.daily.filter((d) => d.day <= h && d.day > shiftDay(h, -84));
+    const mean = recent.reduce((a, d) => a + d.devs, 0) / (recent.length || 1);
+    const byWeekday = new Map<string, { sum: number; n: number }>();
+    for (const d of recent) {
+        const w = byWeekday.get(weekday(d.day)) ?? { sum: 0, n: 0 };
+        w.sum += d.devs;
+        w.n++;
+        byWeekday.set(weekday(d.day), w);
+    }
+    const factor = (day: string) => {
+        const w = byWeekday.get(weekday(day));
+        return w && mean ? w.sum / w.n / mean : 1;
+    };
+    const spans = new Map<string, number>();
+    const span = (from: string, k: number) => {
+        const key = `${from}|${k}`;
+        let s = spans.get(key);
+        if (s == null) {
+            s = 0;
+            for (let d = 1; d <= k; d++) s += factor(shiftDay(from, d));
+            spans.set(key, s);
+        }
+        return s || 1;
+    };
+
+    const out: Omit<NowcastDay, 'lo' | 'hi'>[] = [];
+    for (let k = 1; k <= NOWCAST_DAYS; k++) {
+        let sum = 0,
+            weights = 0;
+        for (let j = k; j <= NOWCAST_LOOKBACK; j++) {
+            const a = shiftDay(h, -j);
+            const total = held(shiftDay(a, k), 0),
+                kept = held(a, k);
+            if (total == null || kept == null) continue;
+            const w = 0.5 ** (j / NOWCAST_HALF_LIFE);
+            sum += (w * (total - kept) * span(h, k)) / span(a, k);
+            weights += w;
+        }
+        if (!weights) return null;
+        const retained = base - (held(h, 0)! - held(h, k)!);
+        out.push({ day: shiftDay(h, k), lead: k, retained, value: retained + sum / weights });
+    }
+    return out;
+}
+
+const quantile = (sorted: number[], q: number) => {
+    const i = (sorted.length - 1) * q;
+    const lo = Math.floor(i);
+    return sorted[lo] + (sorted[Math.ceil(i)] - sorted[lo]) * (i - lo);
+};
+
+/** The nowcast past the horizon with its backtest, or null if the extract is too short.
+ *  Computed once per snapshot: the backtest re-runs the model for every past horizon. */
+export async function getNowcast(): Promise<Nowcast | null> {
+    return derived('nowcast', computeNowcast);
+}
+
+async function computeNowcast(): Promise<Nowcast | null> {
+    const R = NOWCAST_BACKTEST + NOWCAST_LOOKBACK + 2 * NOWCAST_DAYS;
+    const rows = await query<{ day: string; k: number; devs: number }>(`
+    WITH h AS (SELECT max(day) AS m FROM dev_day),
+    a AS (SELECT unnest(generate_series((SELECT m FROM h) - ${R}, (SELECT m FROM h),
+                                        INTERVAL 1 DAY))::DATE AS d),
+    k AS (SELECT unnest(range(0, ${NOWCAST_DAYS + 1}))::INTEGER AS k)
+    SELECT a.d AS day, k.k, count(DISTINCT dd.dev) AS devs
+    FROM a CROSS JOIN k JOIN dev_day dd ON dd.day > a.d + k.k - 28 AND dd.day <= a.d
+    GROUP BY 1, 2`);
+    const official = await query<{ day: string; all_devs: number }>(
+        `SELECT day, all_devs FROM eco_mads WHERE day > (SELECT max(day) FROM eco_mads) - ?`,
+        [R + 1],
+    );
+    const daily = await query<{ day: string; devs: number }>(
+        `SELECT day, daily_active_devs AS devs FROM daily_activity
+     WHERE day > (SELECT max(day) FROM daily_activity) - ? ORDER BY day`,
+        [R + 84],
+    );
+    if (!official.length) return null;
+    const inp: NowcastInputs = {
+        held: new Map(rows.map((r) => [`${r.day}|${r.k}`, r.devs])),
+        official: new Map(official.map((r) => [r.day, r.all_devs])),
+        daily,
+    };
+    const from = official.reduce((m, r) => (r.day > m ? r.day : m), official[0].day);
+    const now = nowcastAsOf(from, inp);
+    if (!now) return null;
+
+    // relative errors per lead over past horizons whose week has settled
+    const rel: number[][] = Array.from({ length: NOWCAST_DAYS }, () => []);
+    const naive: number[][] = Array.from({ length: NOWCAST_DAYS }, () => []);
+    let horizons = 0;
+    for (let i = 0; i < NOWCAST_BACKTEST; i++) {
+        const h = shiftDay(from, -NOWCAST_DAYS - i);
+        const past = nowcastAsOf(h, inp);
+        if (!past) continue;
+        horizons++;
+        for (const p of past) {
+            const truth = inp.official.get(p.day);
+            if (!truth) continue;
+            rel[p.lead - 1].push(p.value / truth - 1);
+            naive[p.lead - 1].push(Math.abs(inp.official.get(h)! / truth - 1));
+        }
+    }
+    const r4 = (x: number) => Math.round(x * 10000) / 10000;
+    const mean = (xs: number[]) => xs.reduce((a, b) => a + b, 0) / (xs.length || 1);
+    const errors: NowcastError[] = rel.map((e, i) => ({
+        lead: i + 1,
+        mape: r4(mean(e.map(Math.abs))),
+        bias: r4(mean(e)),
+        naive_mape: r4(mean(naive[i])),
+    }));
+    const tail = (1 - NOWCAST_COVERAGE) / 2;
+    const days = now.map((d) => {
+        const e = [...rel[d.lead - 1]].sort((a, b) => a - b);
+        // value = truth·(1 + error), so a high error quantile bounds truth from below
+        return {
+            ...d,
+            value: Math.round(d.value),
+            lo: Math.round(e.length ? d.value / (1 + quantile(e, 1 - tail)) : d.value),
+            hi: Math.round(e.length ? d.value / (1 + quantile(e, tail)) : d.value),
+        };
+    });
+    return {
+        from,
+        all_devs: inp.official.get(from)!,
+        days,
+        errors,
+        horizons,
+        coverage: NOWCAST_COVERAGE,
+    };
 }
 
 // commits + active-days per 28/60/90-day window and all-time, for a repo_day GROUP BY.
@@ -300,7 +983,53 @@ export async function getDevDetail(login: string): Promise<DevDetail | null> {
      WHERE rd.dev = ? GROUP BY 1, 2 ORDER BY c_all DESC LIMIT 200`,
         [dev.cid],
     );
-    return { login: dev.login, name: dev.name, repos };
+
+    // Timeline: every active day (the calendar), plus runs of consecutive active days
+    // (gaps-and-islands: day minus its rank is constant along a run).
+    const days = await query<DevDayRow>(
+        'SELECT day, num_commits AS commits FROM dev_day WHERE dev = ? ORDER BY day',
+        [dev.cid],
+    );
+    const streaks = await query<{ start: string; end: string; days: number }>(
+        `WITH g AS (SELECT day, day - (row_number() OVER (ORDER BY day))::INT AS grp
+                 FROM dev_day WHERE dev = ?)
+     SELECT min(day) AS "start", max(day) AS "end", count(*) AS days
+     FROM g GROUP BY grp ORDER BY days DESC, "end" DESC`,
+        [dev.cid],
+    );
+    const horizon = (await query<{ h: string }>('SELECT max(day) AS h FROM dev_day'))[0]?.h ?? '';
+    const monthly = await query<DevMonthRow>(
+        `SELECT strftime(day, '%Y-%m') AS month, count(*) AS days, sum(num_commits) AS commits
+     FROM dev_day WHERE dev = ? GROUP BY 1 ORDER BY 1`,
+        [dev.cid],
+    );
+
+    // Programs they committed during (any active day inside the event's dates).
+    const events = (await loadEvents())
+        .map((event) => {
+            const inside = days.filter((d) => d.day >= event.start && d.day <= event.end);
+            return {
+                event,
+                days: inside.length,
+                commits: inside.reduce((n, d) => n + d.commits, 0),
+            };
+        })
+        .filter((e) => e.days > 0);
+
+    return {
+        login: dev.login,
+        name: dev.name,
+        repos,
+        horizon,
+        first_day: days[0]?.day ?? null,
+        last_day: days[days.length - 1]?.day ?? null,
+        days,
+        monthly,
+        longest: streaks[0] ?? null,
+        // a run still going: it ends on the extract's last day
+        current: streaks.find((r) => r.end === horizon)?.days ?? 0,
+        events,
+    };
 }
 
 /** Drill-down: every developer who has committed to a repo (by owner/repo name), all-time. */
@@ -325,7 +1054,222 @@ export async function getRepoDetail(slug: string): Promise<RepoDetail | null> {
      WHERE rd.repo_id = ? GROUP BY rd.dev ORDER BY c_all DESC LIMIT 200`,
         [repo.id],
     );
-    return { repo: repo.repo, url: repo.url, devs };
+    // Daily calendar from the repo's first day to the horizon: rolling 28-day distinct devs
+    // (split into devs new to the repo inside that window vs ones seen on it before) and
+    // that day's commits. Zero days are kept so the lines decay the way MAD does.
+    const history = await query<RepoHistoryRow>(
+        `WITH h AS (SELECT max(day) AS m FROM repo_day),
+     r AS (SELECT day, dev, num_commits FROM repo_day WHERE repo_id = ?),
+     f AS (SELECT dev, min(day) AS fd FROM r GROUP BY dev),
+     cal AS (SELECT unnest(generate_series((SELECT min(day) FROM r), (SELECT m FROM h),
+                                           INTERVAL 1 DAY))::DATE AS d),
+     w AS (SELECT cal.d, count(DISTINCT r.dev) AS devs,
+                  count(DISTINCT r.dev) FILTER (WHERE f.fd > cal.d - 28) AS new_devs
+           FROM cal LEFT JOIN r ON r.day > cal.d - 28 AND r.day <= cal.d
+           LEFT JOIN f ON f.dev = r.dev
+           GROUP BY cal.d),
+     c AS (SELECT day, sum(num_commits) AS commits FROM r GROUP BY day)
+     SELECT w.d AS day, w.devs, w.new_devs, w.devs - w.new_devs AS returning_devs,
+            COALESCE(c.commits, 0) AS commits
+     FROM w LEFT JOIN c ON c.day = w.d ORDER BY 1`,
+        [repo.id],
+    );
+    const active = history.filter((d) => d.commits > 0);
+    return {
+        repo: repo.repo,
+        url: repo.url,
+        first_seen: active[0]?.day ?? null,
+        last_seen: active[active.length - 1]?.day ?? null,
+        devs,
+        history,
+        health: (await getRepoHealth('repo_id = ?', [repo.id])).get(repo.id) ?? null,
+    };
+}
+
+// ---------------------------------------------------------------------------
+// Rollups: repo_day over a set of repos — everything under a GitHub owner (/org/[owner])
+// or a groups.json group (/group/[id]). Devs are distinct across the set, so someone on
+// five SDK repos counts once, the way MAD counts them.
+// ---------------------------------------------------------------------------
+
+/** How many of the most active owners (by 28-day devs) get a line on the main chart. */
+const ROLLUP_ORGS = 8;
+/** Days of history on a rollup page. */
+const ROLLUP_RANGE = 730;
+
+const ownerSql = (nameCol: string) => `lower(regexp_extract("${nameCol}", '([^/]+)/[^/]+$', 1))`;
+
+/** Repo ids a group covers in the loaded extract. */
+async function groupRepoIds(g: RepoGroup): Promise<number[]> {
+    const c = await repoCols();
+    const conds: string[] = [];
+    const params: string[] = [];
+    if (g.pattern) {
+        conds.push(`regexp_matches("${c.name}", ?, 'i')`);
+        params.push(g.pattern);
+    }
+    if (g.repos?.length) {
+        conds.push(`lower("${c.name}") IN (${g.repos.map(() => 'lower(?)').join(', ')})`);
+        params.push(...g.repos);
+    }
+    if (!conds.length) return [];
+    try {
+        return (
+            await query<{ id: number }>(
+                `SELECT "${c.id}" AS id FROM repos WHERE ${conds.join(' OR ')}`,
+                params,
+            )
+        ).map((r) => r.id);
+    } catch {
+        return []; // a pattern JS accepts but DuckDB's RE2 doesn't: the group matches nothing
+    }
+}
+
+async function getRollup(
+    ids: number[],
+): Promise<Pick<RollupDetail, 'repo_count' | 'history' | 'repos'>> {
+    if (!ids.length) return { repo_count: 0, history: [], repos: [] };
+    const c = await repoCols();
+    const inSet = `repo_id IN (${ids.join(', ')})`; // ids come from the repos table
+    const history = await query<RollupHistoryRow>(`
+    WITH h AS (SELECT max(day) AS m FROM repo_day),
+    r AS (SELECT day, dev, num_commits FROM repo_day
+          WHERE ${inSet} AND day > (SELECT m FROM h) - ${ROLLUP_RANGE + 28}),
+    cal AS (SELECT unnest(generate_series(
+              greatest((SELECT min(day) FROM r), (SELECT m FROM h) - ${ROLLUP_RANGE}),
+              (SELECT m FROM h), INTERVAL 1 DAY))::DATE AS d),
+    w AS (SELECT cal.d, count(DISTINCT r.dev) AS devs
+          FROM cal LEFT JOIN r ON r.day > cal.d - 28 AND r.day <= cal.d GROUP BY cal.d),
+    c AS (SELECT day, sum(num_commits) AS commits FROM r GROUP BY day)
+    SELECT w.d AS day, w.devs, COALESCE(c.commits, 0) AS commits, e.all_devs AS mad
+    FROM w LEFT JOIN c ON c.day = w.d LEFT JOIN eco_mads e ON e.day = w.d
+    ORDER BY 1`);
+    const repos = await query<RollupRepoRow>(`
+    WITH h AS (SELECT max(day) AS m FROM repo_day),
+    w AS (
+      SELECT repo_id, max(day) AS last_active_day,
+        COUNT(DISTINCT dev) FILTER (WHERE day > (SELECT m FROM h) - 28)           AS d28,
+        COALESCE(SUM(num_commits) FILTER (WHERE day > (SELECT m FROM h) - 28), 0) AS c28,
+        COUNT(DISTINCT dev)                                                       AS d90,
+        SUM(num_commits)                                                          AS c90
+      FROM repo_day WHERE ${inSet} AND day > (SELECT m FROM h) - 90 GROUP BY repo_id)
+    SELECT rp."${c.name}" AS repo, rp."${c.url}" AS url, w.d28, w.c28, w.d90, w.c90,
+           w.last_active_day
+    FROM w LEFT JOIN repos rp ON rp."${c.id}" = w.repo_id
+    ORDER BY w.d28 DESC, w.d90 DESC, w.c90 DESC LIMIT 100`);
+    return { repo_count: ids.length, history, repos };
+}
+
+/** Everything under one GitHub owner, or null if the extract has no repo of theirs. */
+export async function getOrgDetail(owner: string): Promise<RollupDetail | null> {
+    const c = await repoCols();
+    const ids = (
+        await query<{ id: number }>(
+            `SELECT "${c.id}" AS id FROM repos WHERE ${ownerSql(c.name)} = lower(?)`,
+            [owner],
+        )
+    ).map((r) => r.id);
+    if (!ids.length) return null;
+    return {
+        kind: 'org',
+        key: owner.toLowerCase(),
+        title: owner.toLowerCase(),
+        description: null,
+        ...(await getRollup(ids)),
+    };
+}
+
+/** One groups.json group, or null if there's no group by that id. */
+export async function getGroupDetail(id: string): Promise<RollupDetail | null> {
+    const g = (await loadGroups()).find((x) => x.id === id);
+    if (!g) return null;
+    return {
+        kind: 'group',
+        key: g.id,
+        title: g.title,
+        description: g.description ?? null,
+        ...(await getRollup(await groupRepoIds(g))),
+    };
+}
+
+/** Rolling 28-day devs over the last `days` for every group and the ROLLUP_ORGS most
+ *  active owners: the main chart's optional comparison lines. */
+export async function getRollupSeries(days: number): Promise<RollupSeries[]> {
+    const c = await repoCols();
+    const groups = await Promise.all(
+        (await loadGroups()).map(async (g) => ({ g, ids: await groupRepoIds(g) })),
+    );
+    // group ids are validated slugs and repo ids integers, so both inline safely
+    const groupMembers = groups
+        .filter((x) => x.ids.length)
+        .map((x) => `UNION ALL SELECT 'group', '${x.g.id}', unnest([${x.ids.join(', ')}])`)
+        .join('\n');
+    const rows = await query<{ day: string; kind: 'org' | 'group'; key: string; devs: number }>(
+        `WITH h AS (SELECT max(day) AS m FROM repo_day),
+     rp AS (SELECT "${c.id}" AS id, ${ownerSql(c.name)} AS owner FROM repos),
+     top AS (SELECT rp.owner FROM repo_day rd JOIN rp ON rp.id = rd.repo_id
+             WHERE rd.day > (SELECT m FROM h) - 28 AND rp.owner <> ''
+             GROUP BY 1 ORDER BY count(DISTINCT rd.dev) DESC, 1 LIMIT ${ROLLUP_ORGS}),
+     mem AS (SELECT 'org' AS kind, owner AS key, id FROM rp
+             WHERE owner IN (SELECT owner FROM top)
+             ${groupMembers}),
+     r AS (SELECT rd.day, rd.dev, mem.kind, mem.key FROM repo_day rd
+           JOIN mem ON mem.id = rd.repo_id WHERE rd.day > (SELECT m FROM h) - ? - 28),
+     cal AS (SELECT unnest(generate_series(
+               greatest((SELECT min(day) FROM repo_day), (SELECT m FROM h) - ?),
+               (SELECT m FROM h), INTERVAL 1 DAY))::DATE AS d)
+     SELECT cal.d AS day, r.kind, r.key, count(DISTINCT r.dev) AS devs
+     FROM cal JOIN r ON r.day > cal.d - 28 AND r.day <= cal.d
+     GROUP BY 1, 2, 3 ORDER BY 1`,
+        [days, days],
+    );
+    // a day with nobody active has no row; fill it so the line drops to zero
+    const allDays = [...new Set(rows.map((r) => r.day))];
+    const byKey = new Map<string, Map<string, number>>();
+    for (const r of rows) {
+        const k = `${r.kind}:${r.key}`;
+        if (!byKey.has(k)) byKey.set(k, new Map());
+        byKey.get(k)!.set(r.day, r.devs);
+    }
+    const series = (kind: 'org' | 'group', key: string, title: string): RollupSeries => {
+        const m = byKey.get(`${kind}:${key}`);
+        return {
+            kind,
+            key,
+            title,
+            data: allDays.map((day) => ({ day, value: m?.get(day) ?? 0 })),
+        };
+    };
+    const orgs = [...new Set(rows.filter((r) => r.kind === 'org').map((r) => r.key))];
+    // groups in file order, then owners by their current size
+    const size = (key: string) => byKey.get(`org:${key}`)?.get(allDays[allDays.length - 1]) ?? 0;
+    return [
+        ...groups
+            .filter((x) => byKey.has(`group:${x.g.id}`))
+            .map((x) => series('group', x.g.id, x.g.title)),
+        ...orgs.sort((a, b) => size(b) - size(a)).map((o) => series('org', o, `${o}/*`)),
+    ];
+}
+
+/** Devs active on start..end (inclusive), split by whether they also committed in the
+ *  28 days before `start` (returning) or not (fresh). */
+async function cohortSplit(
+    start: string,
+    end: string,
+): Promise<{ total: number; returning: number; fresh: number }> {
+    return (
+        (
+            await query<{ total: number; returning: number; fresh: number }>(
+                `WITH span AS (SELECT DISTINCT dev FROM dev_day WHERE day BETWEEN ? AND ?),
+            prior AS (SELECT DISTINCT dev FROM dev_day WHERE day > ?::DATE - 28 AND day < ?)
+     SELECT COUNT(*) AS total,
+            COUNT(*) FILTER (WHERE p.dev IS NOT NULL) AS "returning",
+            COUNT(*) FILTER (WHERE p.dev IS NULL)     AS fresh
+     FROM span t LEFT JOIN prior p USING (dev)`,
+                [start, end, start, start],
+            )
+        )[0] ?? { total: 0, returning: 0, fresh: 0 }
+    );
 }
 
 /** Day drill-down: everything active on one calendar day. One small pairs query (≤~1.2k
@@ -339,27 +1283,19 @@ export async function getDayDetail(date: string): Promise<DayDetail> {
     const nameExpr = hasDev ? 'dv.name' : 'NULL';
     const loginExpr = hasDev ? 'dv.login' : 'NULL';
     const botExpr = hasDev ? 'COALESCE(dv.is_bot, FALSE)' : 'FALSE';
+    const rules = await resolveRules();
 
     const pairs = await query<DayPair>(
         `SELECT rd.repo_id, rp."${c.name}" AS repo, rp."${c.url}" AS url,
             rd.dev, ${nameExpr} AS "name", ${loginExpr} AS "login",
-            ${botExpr} AS is_bot, rd.num_commits AS commits
+            ${botExpr} AS is_bot, rd.num_commits AS commits,
+            ${ruleCase(rules)} AS excluded
      FROM repo_day rd JOIN repos rp ON rp."${c.id}" = rd.repo_id ${idJoin}
      WHERE rd.day = ?`,
         [date],
     );
 
-    const cohort = (
-        await query<{ total: number; returning: number; fresh: number }>(
-            `WITH today AS (SELECT DISTINCT dev FROM dev_day WHERE day = ?),
-            prior AS (SELECT DISTINCT dev FROM dev_day WHERE day > ?::DATE - 28 AND day < ?)
-     SELECT COUNT(*) AS total,
-            COUNT(*) FILTER (WHERE p.dev IS NOT NULL) AS "returning",
-            COUNT(*) FILTER (WHERE p.dev IS NULL)     AS fresh
-     FROM today t LEFT JOIN prior p USING (dev)`,
-            [date, date, date],
-        )
-    )[0] ?? { total: 0, returning: 0, fresh: 0 };
+    const cohort = await cohortSplit(date, date);
 
     const bounds = (
         await query<{
@@ -380,4 +1316,1050 @@ export async function getDayDetail(date: string): Promise<DayDetail> {
     return { date, pairs, cohort, ...bounds };
 }
 
+/** Longest span /range will aggregate; its pairs grow with every day added. */
+export const RANGE_MAX_DAYS = 92;
+
+/** Range drill-down: getDayDetail over start..end (inclusive). Pairs are summed over the
+ *  span (with the days each was active), the cohort split is against the 28 days before
+ *  `start`, and `daily` has one row per calendar day for the mini-bars. */
+export async function getRangeDetail(start: string, end: string): Promise<RangeDetail> {
+    const c = await repoCols();
+    const hasDev = await hasDevelopers();
+    const idJoin = hasDev ? 'LEFT JOIN developers dv ON dv.canonical_developer_id = rd.dev' : '';
+    const nameExpr = hasDev ? 'any_value(dv.name)' : 'NULL';
+    const loginExpr = hasDev ? 'any_value(dv.login)' : 'NULL';
+    const botExpr = hasDev ? 'COALESCE(any_value(dv.is_bot), FALSE)' : 'FALSE';
+    const rules = await resolveRules();
+
+    const pairs = await query<RangePair>(
+        `SELECT rd.repo_id, any_value(rp."${c.name}") AS repo, any_value(rp."${c.url}") AS url,
+            rd.dev, ${nameExpr} AS "name", ${loginExpr} AS "login",
+            ${botExpr} AS is_bot, sum(rd.num_commits) AS commits,
+            count(*) AS days, ${ruleCase(rules, true)} AS excluded
+     FROM repo_day rd JOIN repos rp ON rp."${c.id}" = rd.repo_id ${idJoin}
+     WHERE rd.day BETWEEN ? AND ?
+     GROUP BY rd.repo_id, rd.dev`,
+        [start, end],
+    );
+
+    const daily = await query<RangeDay>(
+        `WITH cal AS (SELECT unnest(generate_series(?::DATE, ?::DATE, INTERVAL 1 DAY))::DATE AS day),
+     a AS (SELECT rd.day, count(DISTINCT rd.dev) AS devs, sum(rd.num_commits) AS commits,
+                  count(DISTINCT rd.dev) FILTER (WHERE NOT ${matchSql(rules)}) AS clean_devs,
+                  COALESCE(sum(rd.num_commits) FILTER (WHERE NOT ${matchSql(rules)}), 0)
+                      AS clean_commits
+           FROM repo_day rd WHERE rd.day BETWEEN ? AND ? GROUP BY 1)
+     SELECT cal.day, COALESCE(a.devs, 0) AS devs, COALESCE(a.commits, 0) AS commits,
+            COALESCE(a.clean_devs, 0) AS clean_devs, COALESCE(a.clean_commits, 0) AS clean_commits
+     FROM cal LEFT JOIN a USING (day) ORDER BY 1`,
+        [start, end, start, end],
+    );
+
+    const [cohort, bounds] = await Promise.all([
+        cohortSplit(start, end),
+        query<{ earliest: string; latest: string }>(
+            `SELECT min(day) AS earliest, max(day) AS latest FROM repo_day`,
+        ),
+    ]);
+
+    return { start, end, span: daily.length, pairs, cohort, daily, ...bounds[0] };
+}
+
+/** Impact summary per event (see EventImpact), all events in one query. Measured on
+ *  clean activity — repo_day rows matched by an exclusion rule are dropped first — so a
+ *  misattributed fork can't pose as event participation. One per event, in `events`
+ *  order: rows are keyed by index, since two events can share a slug (hand edits and the
+ *  CLI don't go through validateEvent). */
+export async function getEventImpacts(events: TimelineEvent[]): Promise<EventImpact[]> {
+    if (!events.length) return [];
+    const rules = await resolveRules();
+    const rows = await query<Omit<EventImpact, 'slug'> & { i: number }>(
+        `WITH ev(i, s, e) AS (VALUES ${events.map((_, i) => `(${i}, ?::DATE, ?::DATE)`).join(', ')}),
+     dd AS (SELECT dev, day, num_commits AS commits FROM ${cleanDevDay(rules)}),
+     h AS (SELECT max(day) AS m FROM repo_day),
+     fst AS (SELECT dev, min(day) AS first_day FROM dd GROUP BY 1),
+     part AS (SELECT ev.i, dd.dev, sum(dd.commits) AS commits,
+                     bool_and(fst.first_day >= ev.s) AS is_new
+              FROM ev JOIN dd ON dd.day BETWEEN ev.s AND ev.e JOIN fst USING (dev)
+              GROUP BY 1, 2),
+     aft AS (SELECT p.i, p.dev, p.commits, p.is_new,
+                    bool_or(dd.day <= ev.e + 28)                      AS a28,
+                    bool_or(dd.day > ev.e + 28 AND dd.day <= ev.e + 56) AS a56,
+                    bool_or(dd.day > ev.e + 56)                       AS a84
+             FROM part p JOIN ev USING (i)
+             LEFT JOIN dd ON dd.dev = p.dev AND dd.day > ev.e AND dd.day <= ev.e + 84
+             GROUP BY 1, 2, 3, 4),
+     base AS (SELECT ev.i, count(DISTINCT dd.dev) AS base_devs, sum(dd.commits) AS base_commits
+              FROM ev JOIN dd ON dd.day >= ev.s - (ev.e - ev.s + 1)::INT AND dd.day < ev.s
+              GROUP BY 1),
+     daily AS (SELECT day, count(*) AS n FROM dd GROUP BY 1),
+     lift AS (SELECT ev.i, avg(n) FILTER (WHERE day >= ev.s) AS daily_devs,
+                     avg(n) FILTER (WHERE day < ev.s) AS base_daily_devs
+              FROM ev JOIN daily ON day >= ev.s - 28 AND day <= ev.e GROUP BY 1)
+     SELECT ev.i, (ev.e - ev.s + 1) AS days,
+            count(a.dev) AS devs, COALESCE(sum(a.commits), 0) AS commits,
+            COALESCE(any_value(b.base_devs), 0) AS base_devs,
+            COALESCE(any_value(b.base_commits), 0) AS base_commits,
+            round(any_value(l.daily_devs), 1) AS daily_devs,
+            round(any_value(l.base_daily_devs), 1) AS base_daily_devs,
+            count(a.dev) FILTER (WHERE a.is_new) AS new_devs,
+            CASE WHEN (SELECT m FROM h) >= ev.e + 28 THEN count(a.dev) FILTER (WHERE a.a28) END AS r28,
+            CASE WHEN (SELECT m FROM h) >= ev.e + 56 THEN count(a.dev) FILTER (WHERE a.a56) END AS r56,
+            CASE WHEN (SELECT m FROM h) >= ev.e + 84 THEN count(a.dev) FILTER (WHERE a.a84) END AS r84,
+            CASE WHEN (SELECT m FROM h) >= ev.e + 28
+                 THEN count(a.dev) FILTER (WHERE a.is_new AND a.a28) END AS new_r28,
+            CASE WHEN (SELECT m FROM h) >= ev.e + 56
+                 THEN count(a.dev) FILTER (WHERE a.is_new AND a.a56) END AS new_r56,
+            CASE WHEN (SELECT m FROM h) >= ev.e + 84
+                 THEN count(a.dev) FILTER (WHERE a.is_new AND a.a84) END AS new_r84
+     FROM ev LEFT JOIN aft a USING (i) LEFT JOIN base b USING (i)
+     LEFT JOIN lift l USING (i)
+     GROUP BY ev.i, ev.s, ev.e`,
+        events.flatMap((e) => [e.start, e.end]),
+    );
+    const byIndex = new Map(rows.map(({ i, ...r }) => [i, r]));
+    return events.map((e, i) => ({ ...byIndex.get(i)!, slug: eventSlug(e) }));
+}
+
+/** Event drill-down: the impact summary, the repos that carried the event, and clean
+ *  daily activity from 28 days before to 28 days after it (for the chart). */
+export async function getEventDetail(event: TimelineEvent): Promise<EventDetail> {
+    const [impact] = await getEventImpacts([event]);
+    const rules = await resolveRules();
+    const c = await repoCols();
+    const len = Math.round((Date.parse(event.end) - Date.parse(event.start)) / 86400000) + 1;
+    const repos = await query<EventRepoRow>(
+        `WITH act AS (SELECT rd.repo_id, rd.dev, rd.day, rd.num_commits FROM repo_day rd
+                  WHERE NOT ${matchSql(rules)}),
+     fst AS (SELECT dev, min(day) AS first_day FROM act GROUP BY 1),
+     w AS (SELECT act.repo_id, count(DISTINCT act.dev) AS devs, sum(act.num_commits) AS commits,
+                  count(DISTINCT act.dev) FILTER (WHERE fst.first_day >= ?::DATE) AS new_devs
+           FROM act JOIN fst USING (dev) WHERE act.day BETWEEN ? AND ? GROUP BY 1),
+     b AS (SELECT repo_id, count(DISTINCT dev) AS base_devs FROM act
+           WHERE day >= ?::DATE - ? AND day < ? GROUP BY 1)
+     SELECT rp."${c.name}" AS repo, rp."${c.url}" AS url, w.devs, w.commits, w.new_devs,
+            COALESCE(b.base_devs, 0) AS base_devs
+     FROM w JOIN repos rp ON rp."${c.id}" = w.repo_id LEFT JOIN b USING (repo_id)
+     ORDER BY w.devs DESC, w.commits DESC LIMIT 50`,
+        [event.start, event.start, event.end, event.start, len, event.start],
+    );
+    const daily = await query<EventDay>(
+        `SELECT rd.day, count(DISTINCT rd.dev) AS devs, sum(rd.num_commits) AS commits
+     FROM repo_day rd
+     WHERE rd.day >= ?::DATE - 28 AND rd.day <= ?::DATE + 28 AND NOT ${matchSql(rules)}
+     GROUP BY 1 ORDER BY 1`,
+        [event.start, event.end],
+    );
+    return { event, impact, repos, daily };
+}
+
+/** Acquisition cohorts: developers grouped by the month of their first (clean) commit,
+ *  with how many of each cohort were active in every month since. Covers cohorts from
+ *  the last `months` months; the current month is partial up to the horizon. */
+export async function getCohorts(months: number): Promise<CohortMatrix> {
+    const M = Math.max(3, Math.min(60, months || 24));
+    const rules = await resolveRules();
+    const cells = await query<CohortCell>(`
+    WITH dd AS (SELECT dev, day FROM ${cleanDevDay(rules)}),
+    fst AS (SELECT dev, date_trunc('month', min(day))::DATE AS cohort FROM dd GROUP BY 1),
+    act AS (SELECT DISTINCT dev, date_trunc('month', day)::DATE AS month FROM dd)
+    SELECT strftime(f.cohort, '%Y-%m') AS cohort, strftime(a.month, '%Y-%m') AS month,
+           datediff('month', f.cohort, a.month) AS "offset", count(*) AS devs
+    FROM fst f JOIN act a USING (dev)
+    WHERE f.cohort > date_trunc('month', (SELECT max(day) FROM dd)) - INTERVAL ${M} MONTH
+      -- the extract's first month holds everyone already active then, not newcomers
+      AND f.cohort > (SELECT date_trunc('month', min(day)) FROM dd)
+    GROUP BY 1, 2, 3 ORDER BY 1, 3`);
+    const horizon = (await query<{ h: string }>('SELECT max(day) AS h FROM dev_day'))[0]?.h ?? '';
+    return { cells, horizon, months: M };
+}
+
+/** Cohort drill-down: the developers whose first clean commit fell in `cohort`
+ *  (yyyy-mm), optionally only those active in `month`, with identity when resolved. */
+export async function getCohortDetail(cohort: string, month: string | null): Promise<CohortDetail> {
+    const rules = await resolveRules();
+    const hasDev = await hasDevelopers();
+    const idJoin = hasDev ? 'LEFT JOIN developers dv ON dv.canonical_developer_id = f.dev' : '';
+    const nameExpr = hasDev ? 'any_value(dv.name)' : 'NULL';
+    const loginExpr = hasDev ? 'any_value(dv.login)' : 'NULL';
+    const devs = await query<CohortDevRow>(
+        `WITH dd AS (SELECT dev, day, num_commits FROM ${cleanDevDay(rules)}),
+     f AS (SELECT dev, min(day) AS first_day FROM dd GROUP BY 1
+           HAVING strftime(min(day), '%Y-%m') = ?)
+     SELECT f.dev, ${nameExpr} AS "name", ${loginExpr} AS "login", f.first_day,
+            max(dd.day) AS last_active, count(DISTINCT dd.day) AS active_days,
+            sum(dd.num_commits) AS commits,
+            count(DISTINCT dd.day) FILTER (WHERE strftime(dd.day, '%Y-%m') = ?) AS month_days
+     FROM f JOIN dd USING (dev) ${idJoin}
+     GROUP BY f.dev, f.first_day
+     ORDER BY active_days DESC, commits DESC`,
+        [cohort, month ?? cohort],
+    );
+    return {
+        cohort,
+        month,
+        size: devs.length,
+        devs: (month ? devs.filter((d) => d.month_days > 0) : devs).slice(0, 500),
+    };
+}
+
+// ---------------------------------------------------------------------------
+// Clean-MAD reports (docs/clean-mads, /api/report/clean-mad): the hand method, recounted.
+// Each window's distinct devs from repo_day (which should equal eco_mads.all_devs for a
+// 28-day window), the devs whose only activity in it matched a rule, and the commits on
+// matched rows. EC's contribution ranks aren't in the extract, so the dropped devs are
+// classed with the dashboard's approximation and taken off eco_mads' official split.
+// ---------------------------------------------------------------------------
+
+/** The recount for each [from, to] window (inclusive), in the order given. Dates are
+ *  validated yyyy-mm-dd by the caller, so they inline safely. */
+export async function getCleanMad(
+    spans: { from: string; to: string }[],
+): Promise<CleanMadWindow[]> {
+    if (!spans.length) return [];
+    const rules = await resolveRules();
+    const values = spans.map((s, i) => `(${i}, DATE '${s.from}', DATE '${s.to}')`).join(', ');
+    const count = (cls: string) => `count(*) FILTER (WHERE cls = '${cls}')`;
+    return query<CleanMadWindow>(
+        `WITH s(i, lo, hi) AS (VALUES ${values}),
+     m AS (SELECT s.i, rd.dev, rd.num_commits, ${matchSql(rules)} AS hit
+           FROM s JOIN repo_day rd ON rd.day BETWEEN s.lo AND s.hi),
+     d AS (SELECT i, dev, bool_and(hit) AS sole, bool_or(hit) AS touched FROM m GROUP BY 1, 2),
+     a AS (SELECT i, count(*) AS recount, count(*) FILTER (WHERE touched) AS touchers,
+                  count(*) FILTER (WHERE sole) AS only_devs FROM d GROUP BY 1),
+     c AS (SELECT i, sum(num_commits) AS commits,
+                  COALESCE(sum(num_commits) FILTER (WHERE hit), 0) AS matched_commits
+           FROM m GROUP BY 1),
+     k AS (SELECT d.i, d.dev, ${classCase('count(DISTINCT dd.day)')} AS cls
+           FROM d JOIN s USING (i)
+           JOIN dev_day dd ON dd.dev = d.dev AND dd.day > s.hi - ${CLASS_DAYS} AND dd.day <= s.hi
+           WHERE d.sole GROUP BY 1, 2),
+     kc AS (SELECT i, ${count('full_time')} AS only_full_time,
+                   ${count('part_time')} AS only_part_time, ${count('one_time')} AS only_one_time
+            FROM k GROUP BY 1)
+     SELECT s.lo AS "from", s.hi AS "to",
+            COALESCE(a.recount, 0) AS recount, COALESCE(a.touchers, 0) AS touchers,
+            COALESCE(a.only_devs, 0) AS only_devs,
+            COALESCE(a.recount, 0) - COALESCE(a.only_devs, 0) AS clean,
+            COALESCE(c.commits, 0) AS commits, COALESCE(c.matched_commits, 0) AS matched_commits,
+            COALESCE(kc.only_full_time, 0) AS only_full_time,
+            COALESCE(kc.only_part_time, 0) AS only_part_time,
+            COALESCE(kc.only_one_time, 0) AS only_one_time,
+            e.all_devs, e.full_time_devs, e.part_time_devs, e.one_time_devs,
+            e.exclusive_devs, e.multichain_devs, e.devs_0_1y, e.devs_1_2y, e.devs_2y_plus
+     FROM s LEFT JOIN a USING (i) LEFT JOIN c USING (i) LEFT JOIN kc USING (i)
+     LEFT JOIN eco_mads e ON e.day = s.hi
+     ORDER BY s.i`,
+    );
+}
+
+/** First and last eco_mads day. */
+export async function getMadSpan(): Promise<{ first: string; last: string } | null> {
+    const r = (
+        await query<{ first: string | null; last: string | null }>(
+            'SELECT min(day) AS "first", max(day) AS "last" FROM eco_mads',
+        )
+    )[0];
+    return r?.first && r.last ? { first: r.first, last: r.last } : null;
+}
+
+/** Rule-matched devs and commits per day for the `n` days up to `to`, newest first. */
+export async function getMatchedDays(to: string, n: number): Promise<MatchedDay[]> {
+    const rules = await resolveRules();
+    if (!rules.length) return [];
+    return query<MatchedDay>(
+        `SELECT day, count(DISTINCT dev) AS devs, sum(num_commits) AS commits
+     FROM repo_day rd
+     WHERE ${matchSql(rules)} AND day <= ?::DATE AND day > ?::DATE - ${Math.round(n)}
+     GROUP BY 1 ORDER BY 1 DESC`,
+        [to, to],
+    );
+}
+
+// ---------------------------------------------------------------------------
+// Churn and reactivation (/churn), on clean activity so a fork's upstream contributors
+// don't show up as regulars who left. A regular has at least `minDays` active days in
+// the CHURN_LOOKBACK days up to their last one; churned means none in the `idle` days
+// to the horizon. Reactivated: a first commit after a gap of `gap`+ days, landed in the
+// last CHURN_RECENT days. Bots are left out when identities are resolved.
+// ---------------------------------------------------------------------------
+
+const CHURN_LOOKBACK = 180;
+const CHURN_RECENT = 90;
+const CHURN_LIMIT = 300;
+
+/** Repos each dev committed to in [lo, hi], most commits first, rule-matched rows left
+ *  out. Devs and dates come from the extract, so they inline safely. */
+async function reposInSpans(
+    spans: { dev: number; lo: string; hi: string }[],
+    rules: ResolvedRule[],
+): Promise<Map<number, string[]>> {
+    const out = new Map<number, string[]>();
+    if (!spans.length) return out;
+    const c = await repoCols();
+    const rows = await query<{ dev: number; repo: string }>(
+        `WITH s(dev, lo, hi) AS (VALUES ${spans.map((s) => `(${s.dev}, DATE '${s.lo}', DATE '${s.hi}')`).join(', ')})
+     SELECT rd.dev, any_value(rp."${c.name}") AS repo, sum(rd.num_commits) AS commits
+     FROM repo_day rd JOIN s ON s.dev = rd.dev AND rd.day BETWEEN s.lo AND s.hi
+     LEFT JOIN repos rp ON rp."${c.id}" = rd.repo_id
+     WHERE NOT ${matchSql(rules)}
+     GROUP BY rd.dev, rd.repo_id ORDER BY rd.dev, commits DESC, repo`,
+    );
+    for (const r of rows) {
+        if (!out.has(r.dev)) out.set(r.dev, []);
+        out.get(r.dev)!.push(r.repo);
+    }
+    return out;
+}
+
+export async function getChurn(
+    minDaysIn: number,
+    idleIn: number,
+    gapIn: number,
+): Promise<ChurnResponse> {
+    const minDays = Math.max(2, Math.min(CHURN_LOOKBACK, Math.round(minDaysIn) || 20));
+    const idle = Math.max(14, Math.min(730, Math.round(idleIn) || 60));
+    const gap = Math.max(14, Math.min(730, Math.round(gapIn) || 90));
+    const rules = await resolveRules();
+    const hasDev = await hasDevelopers();
+    const idJoin = hasDev ? 'LEFT JOIN developers dv ON dv.canonical_developer_id = x.dev' : '';
+    const idCols = hasDev ? 'dv.name, dv.login' : 'NULL AS "name", NULL AS "login"';
+    const notBot = hasDev ? 'NOT COALESCE(dv.is_bot, FALSE)' : 'TRUE';
+    const base = `dd AS (SELECT DISTINCT dev, day, num_commits FROM ${cleanDevDay(rules)}),
+     h AS (SELECT max(day) AS m FROM dev_day),
+     s AS (SELECT dev, min(day) AS first_day, max(day) AS last_day,
+                  count(DISTINCT day) AS active_days, sum(num_commits) AS commits
+           FROM dd GROUP BY dev)`;
+    const churned = await query<Omit<ChurnedDev, 'repos'>>(
+        `WITH ${base},
+     x AS (SELECT s.*, count(DISTINCT dd.day) AS recent_days
+           FROM s JOIN dd USING (dev)
+           WHERE s.last_day <= (SELECT m FROM h) - ?
+             AND dd.day > s.last_day - ${CHURN_LOOKBACK}
+           GROUP BY ALL HAVING count(DISTINCT dd.day) >= ?)
+     SELECT x.dev, ${idCols}, x.first_day, x.last_day,
+            (SELECT m FROM h) - x.last_day AS idle_days,
+            x.last_day - x.first_day + 1 AS tenure_days,
+            x.active_days, x.recent_days, x.commits
+     FROM x ${idJoin} WHERE ${notBot}
+     ORDER BY x.last_day DESC, x.recent_days DESC LIMIT ${CHURN_LIMIT}`,
+        [idle, minDays],
+    );
+    const reactivated = await query<Omit<ReactivatedDev, 'repos'>>(
+        `WITH ${base},
+     g AS (SELECT dev, day, lag(day) OVER (PARTITION BY dev ORDER BY day) AS prev_day
+           FROM (SELECT DISTINCT dev, day FROM dd)),
+     b AS (SELECT dev, arg_max(prev_day, day) AS prev_day, max(day) AS back_day FROM g
+           WHERE day - prev_day >= ? AND day > (SELECT m FROM h) - ${CHURN_RECENT}
+           GROUP BY dev),
+     x AS (SELECT b.*, s.first_day,
+                  count(DISTINCT dd.day) FILTER (WHERE dd.day <= b.prev_day) AS days_before,
+                  count(DISTINCT dd.day) FILTER (WHERE dd.day >= b.back_day) AS days_since
+           FROM b JOIN s USING (dev) JOIN dd USING (dev) GROUP BY ALL)
+     SELECT x.dev, ${idCols}, x.first_day, x.prev_day, x.back_day,
+            x.back_day - x.prev_day AS gap_days, x.days_before, x.days_since
+     FROM x ${idJoin} WHERE ${notBot}
+     ORDER BY x.back_day DESC, x.days_before DESC LIMIT ${CHURN_LIMIT}`,
+        [gap],
+    );
+    const horizon = (await query<{ h: string }>('SELECT max(day) AS h FROM dev_day'))[0]?.h ?? '';
+    const lastRepos = await reposInSpans(
+        churned.map((d) => ({ dev: d.dev, lo: shiftDay(d.last_day, -27), hi: d.last_day })),
+        rules,
+    );
+    const backRepos = await reposInSpans(
+        reactivated.map((d) => ({ dev: d.dev, lo: d.back_day, hi: horizon })),
+        rules,
+    );
+    return {
+        horizon,
+        min_days: minDays,
+        idle,
+        gap,
+        lookback: CHURN_LOOKBACK,
+        recent: CHURN_RECENT,
+        churned: churned.map((d) => ({ ...d, repos: lastRepos.get(d.dev) ?? [] })),
+        reactivated: reactivated.map((d) => ({ ...d, repos: backRepos.get(d.dev) ?? [] })),
+    };
+}
+
+// ---------------------------------------------------------------------------
+// Snapshot restatements (/restatements): the loaded extract against an archived one
+// (STELLAR_DB_COMPARE, ATTACHed by db.ts), over the days both cover. ODD revises its
+// history between snapshots; a day, repo or developer whose numbers moved is listed
+// with the change. Commits that moved on repos both extracts have are late commits or
+// revised rows (backfill); on repos only one has, an attribution change. Activity past
+// the archived horizon is new, not restated, and only counted.
+// ---------------------------------------------------------------------------
+
+const RESTATE_LIMIT = 200;
+
+/** The shared days, as CTE `b(lo, hi)`. */
+const restateSpan = (db: string) => `b AS (
+       SELECT greatest((SELECT min(day) FROM dev_day), (SELECT min(day) FROM ${db}.dev_day)) AS lo,
+              least((SELECT max(day) FROM dev_day), (SELECT max(day) FROM ${db}.dev_day)) AS hi)`;
+
+const kindCounts = (rows: { kind: RestatementKind }[]): Record<RestatementKind, number> => ({
+    added: rows.filter((r) => r.kind === 'added').length,
+    removed: rows.filter((r) => r.kind === 'removed').length,
+    changed: rows.filter((r) => r.kind === 'changed').length,
+});
+const byChange = (a: { d_commits: number }, b: { d_commits: number }) =>
+    Math.abs(b.d_commits) - Math.abs(a.d_commits);
+
+export async function getRestatements(against: string | null): Promise<RestatementResponse> {
+    const files = await compareFiles();
+    const m = await meta();
+    const cur = { snapshot: m.snapshot_version ?? null, horizon: m.parquet_horizon ?? null };
+    const name = against && files.some((f) => f.name === against) ? against : files[0]?.name;
+    const empty = { added: 0, removed: 0, changed: 0 };
+    if (!name)
+        return {
+            files,
+            against: null,
+            cur,
+            prev: null,
+            from: null,
+            to: null,
+            days: [],
+            repos: [],
+            devs: [],
+            repo_counts: empty,
+            dev_counts: empty,
+            new_days: 0,
+            new_commits: 0,
+        };
+
+    const prev = (
+        await queryAgainst<RestatementSide>(
+            name,
+            (db) =>
+                `SELECT snapshot_version AS snapshot, parquet_horizon AS horizon FROM ${db}.meta`,
+        )
+    )[0] ?? { snapshot: null, horizon: null };
+    const span = (
+        await queryAgainst<{
+            lo: string | null;
+            hi: string | null;
+            new_days: number;
+            new_commits: number;
+        }>(
+            name,
+            (db) => `WITH ${restateSpan(db)}
+     SELECT b.lo, b.hi, count(da.day) AS new_days, COALESCE(sum(da.daily_commits), 0) AS new_commits
+     FROM b LEFT JOIN daily_activity da ON da.day > b.hi GROUP BY ALL`,
+        )
+    )[0];
+
+    const days = await queryAgainst<RestatedDay>(
+        name,
+        (db) => `WITH ${restateSpan(db)},
+     e AS (SELECT day, p.all_devs AS prev_mad, c.all_devs AS cur_mad,
+                  c.all_devs - p.all_devs AS d_mad,
+                  c.exclusive_devs - p.exclusive_devs AS d_exclusive,
+                  c.multichain_devs - p.multichain_devs AS d_multichain
+           FROM eco_mads c FULL JOIN ${db}.eco_mads p USING (day)),
+     a AS (SELECT day, p.daily_active_devs AS prev_devs, c.daily_active_devs AS cur_devs,
+                  c.daily_active_devs - p.daily_active_devs AS d_devs,
+                  p.daily_commits AS prev_commits, c.daily_commits AS cur_commits,
+                  c.daily_commits - p.daily_commits AS d_commits
+           FROM daily_activity c FULL JOIN ${db}.daily_activity p USING (day)),
+     rc AS (SELECT day, repo_id, sum(num_commits) AS n FROM repo_day, b
+            WHERE day BETWEEN b.lo AND b.hi GROUP BY 1, 2),
+     rp AS (SELECT day, repo_id, sum(num_commits) AS n FROM ${db}.repo_day, b
+            WHERE day BETWEEN b.lo AND b.hi GROUP BY 1, 2),
+     both_ AS (SELECT DISTINCT repo_id FROM repo_day
+               INTERSECT SELECT DISTINCT repo_id FROM ${db}.repo_day),
+     s AS (SELECT day,
+                  sum(COALESCE(rc.n, 0) - COALESCE(rp.n, 0))
+                      FILTER (WHERE repo_id IN (SELECT repo_id FROM both_)) AS backfill,
+                  sum(COALESCE(rc.n, 0) - COALESCE(rp.n, 0))
+                      FILTER (WHERE repo_id NOT IN (SELECT repo_id FROM both_)) AS attribution
+           FROM rc FULL JOIN rp USING (day, repo_id) GROUP BY 1)
+     SELECT day, e.prev_mad, e.cur_mad, e.d_mad, e.d_exclusive, e.d_multichain,
+            a.prev_devs, a.cur_devs, a.d_devs, a.prev_commits, a.cur_commits, a.d_commits,
+            COALESCE(s.backfill, 0) AS d_commits_backfill,
+            COALESCE(s.attribution, 0) AS d_commits_attribution
+     FROM e FULL JOIN a USING (day) LEFT JOIN s USING (day), b
+     WHERE day BETWEEN b.lo AND b.hi
+       AND (e.d_mad <> 0 OR e.d_exclusive <> 0 OR e.d_multichain <> 0 OR a.d_devs <> 0
+            OR a.d_commits <> 0 OR e.d_mad IS NULL OR a.d_devs IS NULL
+            OR s.backfill <> 0 OR s.attribution <> 0)
+     ORDER BY day DESC`,
+    );
+
+    const c = await repoCols();
+    const repos = await queryAgainst<RestatedRepo>(
+        name,
+        (db) => `WITH ${restateSpan(db)},
+     rc AS (SELECT repo_id, day, sum(num_commits) AS n FROM repo_day, b
+            WHERE day BETWEEN b.lo AND b.hi GROUP BY 1, 2),
+     rp AS (SELECT repo_id, day, sum(num_commits) AS n FROM ${db}.repo_day, b
+            WHERE day BETWEEN b.lo AND b.hi GROUP BY 1, 2),
+     d AS (SELECT repo_id, COALESCE(sum(rp.n), 0) AS prev_commits,
+                  COALESCE(sum(rc.n), 0) AS cur_commits,
+                  min(day) FILTER (WHERE rc.n IS DISTINCT FROM rp.n) AS first_day,
+                  max(day) FILTER (WHERE rc.n IS DISTINCT FROM rp.n) AS last_day,
+                  count(rp.n) = 0 AS added, count(rc.n) = 0 AS removed
+           FROM rc FULL JOIN rp USING (repo_id, day) GROUP BY 1),
+     vc AS (SELECT repo_id, count(DISTINCT dev) AS n FROM repo_day, b
+            WHERE day BETWEEN b.lo AND b.hi GROUP BY 1),
+     vp AS (SELECT repo_id, count(DISTINCT dev) AS n FROM ${db}.repo_day, b
+            WHERE day BETWEEN b.lo AND b.hi GROUP BY 1)
+     SELECT d.repo_id, rp."${c.name}" AS repo, rp."${c.url}" AS url,
+            CASE WHEN d.added THEN 'added' WHEN d.removed THEN 'removed' ELSE 'changed' END AS kind,
+            d.prev_commits, d.cur_commits, d.cur_commits - d.prev_commits AS d_commits,
+            COALESCE(vp.n, 0) AS prev_devs, COALESCE(vc.n, 0) AS cur_devs,
+            COALESCE(vc.n, 0) - COALESCE(vp.n, 0) AS d_devs, d.first_day, d.last_day
+     FROM d LEFT JOIN vc USING (repo_id) LEFT JOIN vp USING (repo_id)
+     LEFT JOIN repos rp ON rp."${c.id}" = d.repo_id
+     WHERE d.first_day IS NOT NULL OR COALESCE(vc.n, 0) <> COALESCE(vp.n, 0)`,
+    );
+
+    const hasDev = await hasDevelopers();
+    const devs = await queryAgainst<RestatedDev>(
+        name,
+        (db) => `WITH ${restateSpan(db)},
+     dc AS (SELECT dev, day, sum(num_commits) AS n FROM dev_day, b
+            WHERE day BETWEEN b.lo AND b.hi GROUP BY 1, 2),
+     dp AS (SELECT dev, day, sum(num_commits) AS n FROM ${db}.dev_day, b
+            WHERE day BETWEEN b.lo AND b.hi GROUP BY 1, 2),
+     d AS (SELECT dev, COALESCE(sum(dp.n), 0) AS prev_commits, COALESCE(sum(dc.n), 0) AS cur_commits,
+                  count(dp.n) AS prev_days, count(dc.n) AS cur_days,
+                  min(day) FILTER (WHERE dc.n IS DISTINCT FROM dp.n) AS first_day,
+                  max(day) FILTER (WHERE dc.n IS DISTINCT FROM dp.n) AS last_day
+           FROM dc FULL JOIN dp USING (dev, day) GROUP BY 1
+           HAVING bool_or(dc.n IS DISTINCT FROM dp.n))
+     SELECT d.dev, ${hasDev ? 'dv.name, dv.login' : 'NULL AS "name", NULL AS "login"'},
+            CASE WHEN d.prev_days = 0 THEN 'added' WHEN d.cur_days = 0 THEN 'removed'
+                 ELSE 'changed' END AS kind,
+            d.prev_commits, d.cur_commits, d.cur_commits - d.prev_commits AS d_commits,
+            d.prev_days, d.cur_days, d.cur_days - d.prev_days AS d_days, d.first_day, d.last_day
+     FROM d ${hasDev ? 'LEFT JOIN developers dv ON dv.canonical_developer_id = d.dev' : ''}`,
+    );
+
+    return {
+        files,
+        against: name,
+        cur,
+        prev,
+        from: span?.lo ?? null,
+        to: span?.hi ?? null,
+        days,
+        repos: [...repos].sort(byChange).slice(0, RESTATE_LIMIT),
+        devs: [...devs].sort(byChange).slice(0, RESTATE_LIMIT),
+        repo_counts: kindCounts(repos),
+        dev_counts: kindCounts(devs),
+        new_days: span?.new_days ?? 0,
+        new_commits: span?.new_commits ?? 0,
+    };
+}
+
+// ---------------------------------------------------------------------------
+// ODD vs developerreport.com (/reconcile). Both publish Electric Capital's MAD: the
+// parquet as eco_mads, the site's chart as the weekly points `snapshot-api` stores in
+// mad_api_history. They should agree; a point off by more than the threshold (a percent
+// of the ODD value, per series) is flagged. mad_api_revisions logs each value a point has
+// had, so a week the site restated shows up with its history.
+// ---------------------------------------------------------------------------
+
+const RECON_THRESHOLD = 3;
+
+export async function getReconciliation(thresholdIn: number): Promise<ReconResponse> {
+    const threshold = Math.max(0.5, Math.min(50, thresholdIn || RECON_THRESHOLD));
+    const horizon =
+        (await query<{ h: string | null }>('SELECT max(day) AS h FROM eco_mads'))[0]?.h ?? null;
+    const tables = new Set(
+        (
+            await query<{ t: string }>(
+                `SELECT table_name AS t FROM information_schema.tables
+     WHERE table_name IN ('mad_api_history', 'mad_api_revisions')`,
+            )
+        ).map((r) => r.t),
+    );
+    if (!tables.has('mad_api_history'))
+        return { threshold, horizon, rows: [], revisions: null, captures: 0 };
+
+    const logged = tables.has('mad_api_revisions');
+    const points = await query<Omit<ReconRow, `d_${string}` | `pct_${string}` | 'over'>>(
+        `SELECT a.day, a.total, a.single_chain, a.multi_chain,
+            e.all_devs, e.exclusive_devs, e.multichain_devs,
+            ${logged ? 'COALESCE(r.n - 1, 0)' : '0'} AS revisions
+     FROM mad_api_history a LEFT JOIN eco_mads e USING (day)
+     ${logged ? 'LEFT JOIN (SELECT day, count(*) AS n FROM mad_api_revisions GROUP BY 1) r USING (day)' : ''}
+     ORDER BY a.day`,
+    );
+    const diff = (api: number | null, odd: number | null) =>
+        api == null || odd == null ? null : api - odd;
+    const pct = (d: number | null, odd: number | null) =>
+        d == null || !odd ? null : Math.round((1000 * d) / odd) / 10;
+    const rows = points.map((p): ReconRow => {
+        const d_total = diff(p.total, p.all_devs);
+        const d_single = diff(p.single_chain, p.exclusive_devs);
+        const d_multi = diff(p.multi_chain, p.multichain_devs);
+        const pcts = {
+            total: pct(d_total, p.all_devs),
+            single: pct(d_single, p.exclusive_devs),
+            multi: pct(d_multi, p.multichain_devs),
+        };
+        return {
+            ...p,
+            d_total,
+            d_single,
+            d_multi,
+            pct_total: pcts.total,
+            pct_single: pcts.single,
+            pct_multi: pcts.multi,
+            over: (['total', 'single', 'multi'] as const).filter(
+                (k) => Math.abs(pcts[k] ?? 0) > threshold,
+            ),
+        };
+    });
+
+    if (!logged) return { threshold, horizon, rows, revisions: null, captures: 0 };
+    const revisions = await query<ApiRevision>(
+        `SELECT day, captured_at, total, single_chain, multi_chain,
+            total - lag(total) OVER w AS d_total,
+            single_chain - lag(single_chain) OVER w AS d_single,
+            multi_chain - lag(multi_chain) OVER w AS d_multi
+     FROM mad_api_revisions
+     WINDOW w AS (PARTITION BY day ORDER BY captured_at)
+     QUALIFY count(*) OVER (PARTITION BY day) > 1
+     ORDER BY day DESC, captured_at`,
+    );
+    const captures =
+        (
+            await query<{ n: number }>(
+                'SELECT count(DISTINCT captured_at) AS n FROM mad_api_revisions',
+            )
+        )[0]?.n ?? 0;
+    return { threshold, horizon, rows, revisions, captures };
+}
+
+// ---------------------------------------------------------------------------
+// Data audit (/health/data, /api/health/data): the hand checks from docs/, run on every
+// extract. The 28-day recount from dev_day must equal eco_mads.all_devs, daily_activity
+// must be dev_day rolled up, no table may skip a day inside its span, every repo_day
+// repo needs a repos row, recently active devs need an identity, and the extract's
+// horizon shouldn't trail the live API's by much more than the usual gap week. A check
+// whose input table isn't there yet is skipped, not failed.
+// ---------------------------------------------------------------------------
+
+const AUDIT_SAMPLE = 10;
+/** Days the extract may trail mad_api_history before it counts as stale. */
+const AUDIT_MAX_LAG = 14;
+/** Matches the `resolve-devs --window` default: who should have an identity. */
+const AUDIT_IDENTITY_DAYS = 90;
+
+/** Columns the queries rely on; an array is "any one of" (what repoCols() picks from). */
+const AUDIT_SCHEMA: Record<string, (string | string[])[]> = {
+    dev_day: ['dev', 'day', 'num_commits'],
+    daily_activity: ['day', 'daily_active_devs', 'daily_commits'],
+    repo_day: ['repo_id', 'day', 'dev', 'num_commits'],
+    eco_mads: ['day', 'all_devs', 'num_commits', 'full_time_devs', 'part_time_devs'],
+    repos: [
+        ['id', 'repo_id'],
+        ['name', 'repo_url', 'url'],
+        ['link', 'repo_url', 'url'],
+    ],
+    meta: ['snapshot_version', 'parquet_horizon'],
+};
+
+type AuditResult = Omit<AuditCheck, 'id' | 'title'>;
+type Sample = AuditCheck['sample'];
+
+const counted = (n: number, unit: string) =>
+    `${n.toLocaleString('en-US')} ${n === 1 ? unit.replace(/s$/, '') : unit}`;
+
+async function tableColumns(): Promise<Map<string, Set<string>>> {
+    const rows = await query<{ t: string; c: string }>(
+        `SELECT table_name AS t, column_name AS c FROM information_schema.columns`,
+    );
+    const out = new Map<string, Set<string>>();
+    for (const r of rows) {
+        if (!out.has(r.t)) out.set(r.t, new Set());
+        out.get(r.t)!.add(r.c);
+    }
+    return out;
+}
+
+function auditSchema(cols: Map<string, Set<string>>): AuditResult {
+    const sample: Sample = [];
+    let checked = 0;
+    for (const [table, want] of Object.entries(AUDIT_SCHEMA)) {
+        const have = cols.get(table);
+        for (const w of want) {
+            checked++;
+            const any = typeof w === 'string' ? [w] : w;
+            if (!have) sample.push({ table, column: any.join(' | '), problem: 'table missing' });
+            else if (!any.some((c) => have.has(c)))
+                sample.push({ table, column: any.join(' | '), problem: 'column missing' });
+        }
+    }
+    return {
+        status: sample.length ? 'fail' : 'pass',
+        detail: sample.length
+            ? `${counted(sample.length, 'expected columns')} missing — the extract is from an older or broken build`
+            : `all ${checked} expected columns present`,
+        unit: 'columns',
+        checked,
+        failed: sample.length,
+        sample: sample.slice(0, AUDIT_SAMPLE),
+    };
+}
+
+async function auditMadRecount(): Promise<AuditResult> {
+    // only days whose whole window is inside dev_day can be recounted
+    const rows = await query<{ day: string; eco_mads: number; recount: number; diff: number }>(
+        `WITH e AS (SELECT day, all_devs FROM eco_mads
+                WHERE day - 27 >= (SELECT min(day) FROM dev_day)),
+     r AS (SELECT e.day, any_value(e.all_devs) AS eco_mads, count(DISTINCT dd.dev) AS recount
+           FROM e LEFT JOIN dev_day dd ON dd.day BETWEEN e.day - 27 AND e.day GROUP BY 1)
+     SELECT day, eco_mads, recount, recount - eco_mads AS diff FROM r ORDER BY day DESC`,
+    );
+    const bad = rows.filter((r) => r.diff !== 0);
+    return {
+        status: bad.length ? 'fail' : 'pass',
+        detail: !rows.length
+            ? 'no eco_mads day has a full 28-day window in dev_day'
+            : bad.length
+              ? `${bad.length.toLocaleString('en-US')} of ${counted(rows.length, 'days')} differ; latest ${bad[0].day} (${bad[0].diff > 0 ? '+' : ''}${bad[0].diff})`
+              : `distinct-dev recount == eco_mads.all_devs on all ${counted(rows.length, 'days')}`,
+        unit: 'days',
+        checked: rows.length,
+        failed: bad.length,
+        sample: bad.slice(0, AUDIT_SAMPLE),
+    };
+}
+
+async function auditDailyActivity(): Promise<AuditResult> {
+    const rows = await query<{ days: number; bad: number }>(
+        `WITH d AS (SELECT day, count(DISTINCT dev) AS devs, sum(num_commits) AS commits
+           FROM dev_day GROUP BY 1),
+     j AS (SELECT COALESCE(d.day, da.day) AS day, da.daily_active_devs AS activity_devs,
+                  d.devs AS dev_day_devs, da.daily_commits AS activity_commits,
+                  d.commits AS dev_day_commits
+           FROM d FULL JOIN daily_activity da ON da.day = d.day)
+     SELECT count(*) AS days,
+            count(*) FILTER (WHERE activity_devs IS DISTINCT FROM dev_day_devs
+                               OR activity_commits IS DISTINCT FROM dev_day_commits) AS bad
+     FROM j`,
+    );
+    const { days = 0, bad = 0 } = rows[0] ?? {};
+    const sample = bad
+        ? await query<Sample[number]>(
+              `WITH d AS (SELECT day, count(DISTINCT dev) AS devs, sum(num_commits) AS commits
+           FROM dev_day GROUP BY 1)
+     SELECT COALESCE(d.day, da.day) AS day, da.daily_active_devs AS activity_devs,
+            d.devs AS dev_day_devs, da.daily_commits AS activity_commits,
+            d.commits AS dev_day_commits
+     FROM d FULL JOIN daily_activity da ON da.day = d.day
+     WHERE da.daily_active_devs IS DISTINCT FROM d.devs
+        OR da.daily_commits IS DISTINCT FROM d.commits
+     ORDER BY 1 DESC LIMIT ${AUDIT_SAMPLE}`,
+          )
+        : [];
+    return {
+        status: bad ? 'fail' : 'pass',
+        detail: bad
+            ? `${bad.toLocaleString('en-US')} of ${counted(days, 'days')} disagree (a day missing from one side shows as null)`
+            : `devs and commits agree on all ${counted(days, 'days')}`,
+        unit: 'days',
+        checked: days,
+        failed: bad,
+        sample,
+    };
+}
+
+async function auditMissingDays(): Promise<AuditResult> {
+    const tables = ['dev_day', 'repo_day', 'daily_activity', 'eco_mads'];
+    const gaps = await query<{ table: string; from: string; to: string; days: number }>(
+        tables
+            .map(
+                (t) => `SELECT '${t}' AS "table", prev + 1 AS "from", day - 1 AS "to",
+            (day - prev - 1)::INTEGER AS days
+     FROM (SELECT day, lag(day) OVER (ORDER BY day) AS prev FROM (SELECT DISTINCT day FROM ${t}))
+     WHERE day - prev > 1`,
+            )
+            .join('\nUNION ALL\n') + '\nORDER BY "to" DESC',
+    );
+    const spans = await query<{ days: number }>(
+        `SELECT sum(n)::INTEGER AS days FROM (${tables
+            .map((t) => `SELECT (max(day) - min(day) + 1)::INTEGER AS n FROM ${t}`)
+            .join(' UNION ALL ')})`,
+    );
+    const missing = gaps.reduce((s, g) => s + g.days, 0);
+    return {
+        status: gaps.length ? 'fail' : 'pass',
+        detail: gaps.length
+            ? `${counted(missing, 'days')} missing in ${counted(gaps.length, 'gaps')} (${[...new Set(gaps.map((g) => g.table))].join(', ')})`
+            : `no gaps in ${tables.join(', ')}`,
+        unit: 'table-days',
+        checked: spans[0]?.days ?? 0,
+        failed: missing,
+        sample: gaps.slice(0, AUDIT_SAMPLE),
+    };
+}
+
+async function auditOrphanRepos(): Promise<AuditResult> {
+    const c = await repoCols();
+    const rows = await query<{
+        repo_id: number;
+        rows: number;
+        devs: number;
+        commits: number;
+        last_day: string;
+    }>(
+        `SELECT rd.repo_id, count(*) AS "rows", count(DISTINCT rd.dev) AS devs,
+            sum(rd.num_commits) AS commits, max(rd.day) AS last_day
+     FROM repo_day rd LEFT JOIN repos rp ON rp."${c.id}" = rd.repo_id
+     WHERE rp."${c.id}" IS NULL
+     GROUP BY 1 ORDER BY last_day DESC, "rows" DESC`,
+    );
+    const total =
+        (await query<{ n: number }>('SELECT count(DISTINCT repo_id) AS n FROM repo_day'))[0]?.n ??
+        0;
+    const commits = rows.reduce((s, r) => s + r.commits, 0);
+    return {
+        status: rows.length ? 'fail' : 'pass',
+        detail: rows.length
+            ? `${counted(rows.length, 'repos')} in repo_day have no repos row (${counted(commits, 'commits')}) — they show up as bare ids`
+            : `all ${counted(total, 'repos')} in repo_day are in repos`,
+        unit: 'repos',
+        checked: total,
+        failed: rows.length,
+        sample: rows.slice(0, AUDIT_SAMPLE),
+    };
+}
+
+async function auditIdentities(): Promise<AuditResult> {
+    const recent = `SELECT dev, max(day) AS last_day, count(DISTINCT day) AS active_days,
+            sum(num_commits) AS commits
+     FROM dev_day WHERE day > (SELECT max(day) FROM dev_day) - ${AUDIT_IDENTITY_DAYS} GROUP BY 1`;
+    const total = (await query<{ n: number }>(`SELECT count(*) AS n FROM (${recent})`))[0]?.n ?? 0;
+    if (!(await hasDevelopers()))
+        return {
+            status: 'fail',
+            detail: `no developers table — all ${counted(total, 'devs')} active in the last ${AUDIT_IDENTITY_DAYS} days show as ids; run \`stellar_odd.py resolve-devs\``,
+            unit: 'devs',
+            checked: total,
+            failed: total,
+            sample: [],
+        };
+    const rows = await query<{ dev: number; last_day: string; problem: string }>(
+        `WITH r AS (${recent})
+     SELECT r.dev, r.last_day, r.active_days, r.commits,
+            CASE WHEN dv.canonical_developer_id IS NULL THEN 'no developers row'
+                 ELSE 'no name or login' END AS problem
+     FROM r LEFT JOIN developers dv ON dv.canonical_developer_id = r.dev
+     WHERE dv.canonical_developer_id IS NULL OR (dv.name IS NULL AND dv.login IS NULL)
+     ORDER BY r.active_days DESC, r.dev`,
+    );
+    return {
+        status: rows.length ? 'fail' : 'pass',
+        detail: rows.length
+            ? `${rows.length.toLocaleString('en-US')} of ${counted(total, 'devs')} active in the last ${AUDIT_IDENTITY_DAYS} days have no identity — re-run \`stellar_odd.py resolve-devs\``
+            : `all ${counted(total, 'devs')} active in the last ${AUDIT_IDENTITY_DAYS} days have a name or login`,
+        unit: 'devs',
+        checked: total,
+        failed: rows.length,
+        sample: rows.slice(0, AUDIT_SAMPLE),
+    };
+}
+
+async function auditHorizon(cols: Map<string, Set<string>>): Promise<AuditResult> {
+    const api = cols.has('mad_api_history');
+    const tables = ['dev_day', 'repo_day', 'daily_activity', 'eco_mads'];
+    const sample = await query<{
+        table: string;
+        horizon: string | null;
+        behind_api: number | null;
+    }>(
+        `WITH h AS (${[...tables, ...(api ? ['mad_api_history'] : [])]
+            .map((t, i) => `SELECT ${i} AS i, '${t}' AS "table", max(day) AS horizon FROM ${t}`)
+            .join(' UNION ALL ')})
+     SELECT "table", horizon,
+            ${api ? '((SELECT max(day) FROM mad_api_history) - horizon)::INTEGER' : 'NULL::INTEGER'} AS behind_api
+     FROM h ORDER BY i`,
+    );
+    const own = sample.filter((r) => r.table !== 'mad_api_history');
+    const horizon = own[0]?.horizon ?? null;
+    const lag = own[0]?.behind_api ?? null;
+    const apiDay = sample.find((r) => r.table === 'mad_api_history')?.horizon;
+    const base = { unit: 'tables', checked: sample.length, sample };
+    if (own.some((r) => r.horizon !== horizon))
+        return {
+            ...base,
+            status: 'fail',
+            detail: `the extract's tables end on different days (${own.map((r) => `${r.table} ${r.horizon}`).join(', ')}) — a partial rebuild`,
+            failed: own.filter((r) => r.horizon !== horizon).length,
+        };
+    if (lag == null)
+        return {
+            ...base,
+            status: 'skip',
+            detail: `extract through ${horizon}; no mad_api_history to compare against (run \`stellar_odd.py snapshot-api\`)`,
+            failed: 0,
+        };
+    return {
+        ...base,
+        status: lag > AUDIT_MAX_LAG ? 'fail' : 'pass',
+        detail:
+            lag > AUDIT_MAX_LAG
+                ? `extract through ${horizon} trails the API (${apiDay}) by ${lag} days, more than ${AUDIT_MAX_LAG} — rebuild it`
+                : lag > 0
+                  ? `extract through ${horizon}, ${lag} days behind the API (${apiDay})`
+                  : `extract through ${horizon}, at or past the API's last point (${apiDay})`,
+        failed: lag > AUDIT_MAX_LAG ? 1 : 0,
+    };
+}
+
+const AUDITS: [
+    string,
+    string,
+    (cols: Map<string, Set<string>>) => AuditResult | Promise<AuditResult>,
+][] = [
+    ['schema', 'Expected tables and columns', auditSchema],
+    ['mad-recount', 'eco_mads.all_devs == 28-day recount from dev_day', auditMadRecount],
+    ['daily-activity', 'daily_activity == dev_day rolled up by day', auditDailyActivity],
+    ['missing-days', 'No missing days inside each table', auditMissingDays],
+    ['orphan-repos', 'Every repo_day repo is in repos', auditOrphanRepos],
+    ['identities', 'Recently active devs have an identity', auditIdentities],
+    ['horizon', 'Horizons agree, and keep up with the API', auditHorizon],
+];
+
+/** Runs every check; one that throws (say, on a missing table) is reported as failed
+ *  with the error rather than taking the page down. */
+export async function getDataAudit(): Promise<DataAudit> {
+    const cols = await tableColumns();
+    const checks = await Promise.all(
+        AUDITS.map(async ([id, title, run]): Promise<AuditCheck> => {
+            try {
+                return { id, title, ...(await run(cols)) };
+            } catch (e) {
+                return {
+                    id,
+                    title,
+                    status: 'fail',
+                    detail: `couldn't run: ${e instanceof Error ? e.message.split('\n')[0] : String(e)}`,
+                    unit: '',
+                    checked: 0,
+                    failed: 0,
+                    sample: [],
+                };
+            }
+        }),
+    );
+    const m = await meta();
+    const horizon = checks.find((c) => c.id === 'horizon')?.sample[0]?.horizon ?? null;
+    return {
+        snapshot: m.snapshot_version ?? null,
+        horizon: typeof horizon === 'string' ? horizon : null,
+        ok: checks.every((c) => c.status !== 'fail'),
+        checks,
+    };
+}
+
+// ---------------------------------------------------------------------------
+// Search (the header's command palette). Case-insensitive; an exact match scores 1, a
+// prefix 0.95, a substring 0.9, anything else its Jaro-Winkler similarity scaled by
+// 0.85 so typos ("soroban-exmples") still land below every real substring hit.
+// ---------------------------------------------------------------------------
+
+const SEARCH_LIMIT = 8;
+const SEARCH_MIN = 0.75;
+const scoreSql = (col: string) => `CASE WHEN lower(${col}) = $1 THEN 1.0
+      WHEN starts_with(lower(${col}), $1) THEN 0.95
+      WHEN contains(lower(${col}), $1) THEN 0.9
+      ELSE 0.85 * jaro_winkler_similarity(lower(${col}), $1) END`;
+
+// every word of the query somewhere in the text ("wave 4 drips"), which Jaro-Winkler
+// scores low for the word order alone
+const allWords = (text: string, q: string) =>
+    q.split(/\s+/).every((w) => text.toLowerCase().includes(w));
+
+/** Repos (by owner/repo or just the repo part), developers (name or login — only those
+ *  with a login, which is what /dev/[login] needs), event titles and a literal date,
+ *  merged into one list best-first. */
+export async function search(raw: string): Promise<SearchResponse> {
+    const q = raw.trim().toLowerCase();
+    const hits: SearchHit[] = [];
+    if (q.length < 2) return { q: raw, hits };
+
+    if (/^\d{4}-\d{2}-\d{2}$/.test(q)) {
+        const r = (
+            await query<{ lo: string; hi: string }>('SELECT min(day) lo, max(day) hi FROM dev_day')
+        )[0];
+        if (r && q >= r.lo && q <= r.hi)
+            hits.push({ kind: 'day', key: q, label: q, detail: weekday(q), score: 1 });
+    }
+
+    const c = await repoCols();
+    const repos = await query<{ repo: string; score: number; last_active: string | null }>(
+        `WITH s AS (
+       SELECT "${c.id}" AS id, "${c.name}" AS repo,
+              greatest(${scoreSql(`"${c.name}"`)}, ${scoreSql(`regexp_extract("${c.name}", '[^/]+$')`)}) AS score
+       FROM repos)
+     SELECT repo, score, (SELECT max(day) FROM repo_day WHERE repo_id = s.id) AS last_active
+     FROM s WHERE score >= ${SEARCH_MIN} ORDER BY score DESC, length(repo), repo LIMIT ${SEARCH_LIMIT}`,
+        [q],
+    );
+    for (const r of repos)
+        hits.push({
+            kind: 'repo',
+            key: r.repo,
+            label: r.repo,
+            detail: r.last_active ? `last active ${r.last_active}` : 'no commits',
+            score: r.score,
+        });
+
+    if (await hasDevelopers()) {
+        const devs = await query<{ login: string; name: string | null; score: number }>(
+            `WITH s AS (
+       SELECT login, name, greatest(${scoreSql('login')}, COALESCE(${scoreSql('name')}, 0)) AS score
+       FROM developers WHERE login IS NOT NULL)
+     SELECT login, name, score FROM s WHERE score >= ${SEARCH_MIN}
+     ORDER BY score DESC, length(login), login LIMIT ${SEARCH_LIMIT}`,
+            [q],
+        );
+        for (const d of devs)
+            hits.push({
+                kind: 'dev',
+                key: d.login,
+                label: `@${d.login}`,
+                detail: d.name,
+                score: d.score,
+            });
+    }
+
+    // events.json isn't in the extract, so the titles go in as a VALUES list, scored like
+    // repos and devs; `i` is the index into `events`
+    const events = await loadEvents();
+    const values = events.map((_, i) => `(${i}, $${2 * i + 2}, $${2 * i + 3})`).join(', ');
+    const scored = events.length
+        ? await query<{ i: number; score: number }>(
+              `WITH ev(i, title, pt) AS (VALUES ${values})
+     SELECT i, greatest(${scoreSql('title')}, ${scoreSql('pt')}) AS score FROM ev ORDER BY i`,
+              [q, ...events.flatMap((e) => [e.title, `${e.partner} ${e.title}`])],
+          )
+        : [];
+    for (const { i, score: sim } of scored) {
+        const e = events[i];
+        const words = allWords(e.title, q) || allWords(`${e.partner} ${e.title}`, q);
+        const score = Math.max(sim >= SEARCH_MIN ? sim : 0, words ? 0.85 : 0);
+        if (score)
+            hits.push({
+                kind: 'event',
+                key: eventSlug(e),
+                label: e.title,
+                detail: `${e.partner} · ${e.start} → ${e.end}`,
+                score,
+            });
+    }
+
+    // stable: equal scores keep the day → repo → dev → event order they were pushed in
+    hits.sort((a, b) => b.score - a.score);
+    return { q: raw, hits: hits.slice(0, 3 * SEARCH_LIMIT) };
+}
+
 export { loadEvents };
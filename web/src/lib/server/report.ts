@@ -0,0 +1,394 @@
+// The clean-MAD Markdown reports of docs/clean-mads, rendered from the loaded extract
+// instead of typed up: one horizon (?date=), one month's daily series (?series=) or a
+// year's month-ends (?month=). Same method and layout as the hand-written files, with
+// the snapshot from `meta` and a self-check that each 28-day recount equals
+// eco_mads.all_devs — a report that fails it says so at the top.
+import { error } from '@sveltejs/kit';
+import { meta } from '$lib/server/db';
+import { loadExclusions } from '$lib/server/exclusions';
+import { getCleanMad, getMadSpan, getMatchedDays } from '$lib/server/queries';
+import { shiftDay } from '$lib/format';
+import type { CleanMadWindow, ExclusionRule } from '$lib/types';
+
+/** Days of rule-matched activity listed in a daily report. */
+const RECENT_DAYS = 10;
+/** A horizon this close to the extract's is still filling in (ODD backfills late commits). */
+const FRESH_DAYS = 7;
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const MONTH_NAMES = [
+    'January',
+    'February',
+    'March',
+    'April',
+    'May',
+    'June',
+    'July',
+    'August',
+    'September',
+    'October',
+    'November',
+    'December',
+];
+
+const n = (v: number | null | undefined) => (v == null ? '—' : v.toLocaleString('en-US'));
+const pct = (part: number, whole: number | null, digits = 1) =>
+    whole ? `${((100 * part) / whole).toFixed(digits)}%` : '—';
+/** "Jul 20" */
+const short = (day: string) => `${MONTHS[+day.slice(5, 7) - 1]} ${+day.slice(8, 10)}`;
+const monthEnd = (y: number, m: number) => new Date(Date.UTC(y, m, 0)).toISOString().slice(0, 10);
+const window28 = (to: string) => ({ from: shiftDay(to, -27), to });
+const table = (head: string[], align: string[], rows: string[][]) =>
+    [
+        `| ${head.join(' | ')} |`,
+        `|${align.join('|')}|`,
+        ...rows.map((r) => `| ${r.join(' | ')} |`),
+    ].join('\n');
+
+export interface Report {
+    name: string;
+    markdown: string;
+    /** Every 28-day recount matched eco_mads.all_devs. */
+    ok: boolean;
+}
+
+interface Ctx {
+    snapshot: string;
+    latest: string;
+    rules: ExclusionRule[];
+    /** "winget" for the winget-pkgs rule; "excluded" when several rules apply. */
+    label: string;
+}
+
+/** What a rule matches, e.g. "`stellar/winget-pkgs` (repo id `1770468`, …)". */
+function describe(r: ExclusionRule): string {
+    const name = r.url?.match(/github\.com\/([^/]+\/[^/]+)/)?.[1];
+    const ids = r.repos ?? [];
+    const what = [
+        ...(ids.length
+            ? [
+                  `${name && ids.length === 1 ? `\`${name}\` (` : '('}repo id${ids.length > 1 ? 's' : ''} ${ids.map((i) => `\`${i}\``).join(', ')}, ${r.title} — see \`exclusions.json\`)`,
+              ]
+            : []),
+        ...(r.owners ?? []).map((o) => `repos under \`${o}\``),
+        ...(r.devs?.length ? [`developer ids ${r.devs.map((d) => `\`${d}\``).join(', ')}`] : []),
+    ];
+    return what.join(', ') || `\`${r.id}\``;
+}
+
+const cleanRule = (c: Ctx) =>
+    c.rules.length
+        ? `"Clean" = drop devs whose ONLY window activity was ${c.rules.map(describe).join(' or ')}; anyone who also touched a real repo stays.`
+        : 'No exclusion rules are active in `exclusions.json`, so clean = official.';
+
+/** "matches" / "does NOT match" for one window. */
+const check = (w: CleanMadWindow) => w.all_devs != null && w.recount === w.all_devs;
+
+const RANK_NOTE =
+    "RECOMPUTED, not canonical: `eco_developer_contribution_ranks` isn't in the Stellar extract, so the dropped devs are classed with the dashboard's approximation (full-time = 30+ active days in the trailing 84, one-time = a single active day, part-time otherwise) and taken off `eco_mads`' official split.";
+
+function daily(
+    w: CleanMadWindow,
+    recent: { day: string; devs: number; commits: number }[],
+    c: Ctx,
+) {
+    const L = c.label;
+    const latest =
+        w.to === c.latest
+            ? `latest \`eco_mads.day\` = **${w.to}**`
+            : `\`eco_mads.day\` = **${w.to}** (latest ${c.latest})`;
+    const sanity = check(w)
+        ? `Sanity check: distinct devs over the window across all repos = **${n(w.recount)}**, matches \`eco_mads.all_devs\`.`
+        : `Sanity check FAILED: distinct devs over the window across all repos = **${n(w.recount)}**, but \`eco_mads.all_devs\` = **${n(w.all_devs)}** — treat the numbers below as suspect.`;
+    const kept = w.touchers - w.only_devs;
+    const target =
+        c.rules.length === 1 && c.rules[0].repos?.length === 1 && !c.rules[0].owners?.length
+            ? `repo ${c.rules[0].repos[0]}`
+            : 'rule-matched rows';
+    const ranks: [string, number | null, number][] = [
+        ['full_time', w.full_time_devs, w.only_full_time],
+        ['part_time', w.part_time_devs, w.only_part_time],
+        ['one_time', w.one_time_devs, w.only_one_time],
+    ];
+    return [
+        `# Clean MAD (${L} removed) — horizon ${w.to}`,
+        '',
+        `Canonical snapshot \`${c.snapshot}\`; ${latest}. 28-day window = ${w.from} → ${w.to} inclusive.`,
+        '',
+        `${sanity} ${cleanRule(c)}`,
+        '',
+        '## Cleanly recomputed from the extract (`repo_day`, 28d window)',
+        '',
+        table(
+            ['metric', 'official', `${L}-only`, '**clean**'],
+            ['---', '---:', '---:', '---:'],
+            [
+                ['MAD (`all_devs`, 28d)', n(w.all_devs), n(w.only_devs), `**${n(w.clean)}**`],
+                [
+                    'num_commits (28d)',
+                    n(w.commits),
+                    n(w.matched_commits),
+                    `**${n(w.commits - w.matched_commits)}**`,
+                ],
+            ],
+        ),
+        '',
+        `- ${L} touchers in window: **${n(w.touchers)}** — ${n(w.only_devs)} ${L}-only (drop), **${n(kept)}** also touched a real repo (keep).`,
+        `- ${L} = **${pct(w.only_devs, w.all_devs)}** of MAD, **${pct(w.matched_commits, w.commits)}** of windowed commits.`,
+        ...(recent.length
+            ? [
+                  `- Recent daily activity on ${target} (devs / commits):`,
+                  ...recent.map((d) => `  - ${d.day}: ${n(d.devs)} / ${n(d.commits)}`),
+              ]
+            : []),
+        '',
+        '## Contribution ranks',
+        '',
+        RANK_NOTE,
+        '',
+        table(
+            ['rank', 'official', `${L}-only`, '**clean**'],
+            ['---', '---:', '---:', '---:'],
+            ranks.map(([rank, off, only]) => [
+                rank,
+                n(off),
+                `**${n(only)} (${pct(only, off, 0)})**`,
+                `**${n(less(off, only))}**`,
+            ]),
+        ),
+        '',
+        '## Quote with caveats — NOT recomputable',
+        '',
+        `The exclusive/multichain split needs cross-ecosystem data (not in the Stellar-only extract; ${L} devs propagate into other-eco rollups). Tenure is by first-ever commit.`,
+        '',
+        table(
+            ['metric', `official ${w.to}`, 'note'],
+            ['---', '---:', '---'],
+            [
+                [
+                    'exclusive_devs',
+                    n(w.exclusive_devs),
+                    `can't split ${L} out — needs cross-eco data`,
+                ],
+                [
+                    'multichain_devs',
+                    n(w.multichain_devs),
+                    `${L}-only devs propagate into other-eco rollups → likely inflated`,
+                ],
+                [
+                    'devs_0_1y / 1_2y / 2y+',
+                    `${n(w.devs_0_1y)} / ${n(w.devs_1_2y)} / ${n(w.devs_2y_plus)}`,
+                    `${L} upstream devs are new-to-Stellar → concentrated in 0_1y`,
+                ],
+            ],
+        ),
+        '',
+        `**Headline: clean MAD ≈ ${n(w.clean)} vs official ${n(w.all_devs)}.**`,
+        '',
+    ].join('\n');
+}
+
+/** The official rank count less the approximated rule-only devs, or null when the two
+ *  don't reconcile (the approximation classed more devs into it than eco_mads has). */
+const less = (official: number | null, only: number) =>
+    official == null || official < only ? null : official - only;
+const cleanFullTime = (w: CleanMadWindow) => less(w.full_time_devs, w.only_full_time);
+
+function verified(ws: CleanMadWindow[], what: string) {
+    const bad = ws.filter((w) => !check(w));
+    return bad.length
+        ? `Self-check FAILED: the distinct-dev recount differs from \`eco_mads.all_devs\` on ${bad.length} of ${ws.length} ${what} (${bad.map((w) => `${w.to}: ${n(w.recount)} vs ${n(w.all_devs)}`).join('; ')}).`
+        : `Verified: distinct-dev recount == \`eco_mads.all_devs\` for all ${ws.length} ${what}, zero mismatches.`;
+}
+
+function series(ws: CleanMadWindow[], month: string, c: Ctx) {
+    const [y, m] = month.split('-').map(Number);
+    const peak = ws.reduce((p, w) => (w.clean > p.clean ? w : p), ws[0]);
+    const first = ws[0];
+    const last = ws[ws.length - 1];
+    const fresh = shiftDay(c.latest, -FRESH_DAYS) < last.to;
+    return [
+        `# Clean MAD daily series — ${MONTH_NAMES[m - 1]} ${y} (single snapshot \`${c.snapshot}\`)`,
+        '',
+        `Every row recomputed from ONE extract (snapshot \`${c.snapshot}\`, horizon ${c.latest}), so the series is internally consistent. 28-day window ending on \`horizon\`; ${cleanRule(c).replace(/^"Clean"/, '"clean"')} ${verified(ws, 'days')} Clean full_time takes the ${c.label}-only devs, classed with the dashboard's approximation, off \`eco_mads.full_time_devs\`.`,
+        '',
+        table(
+            ['horizon', 'official MAD', `${c.label}-only`, '**clean MAD**', 'clean full_time'],
+            ['---', '---:', '---:', '---:', '---:'],
+            ws.map((w) => [
+                w.to,
+                n(w.all_devs),
+                n(w.only_devs),
+                `**${n(w.clean)}**`,
+                n(cleanFullTime(w)),
+            ]),
+        ),
+        '',
+        `Shape: ${n(first.clean)} (${short(first.to)})${peak !== first && peak !== last ? ` → peak ${n(peak.clean)} (${short(peak.to)})` : ''} → ${n(last.clean)} (${short(last.to)}).`,
+        ...(fresh
+            ? [
+                  '',
+                  `The last horizons sit within ${FRESH_DAYS} days of the extract's and are **undercounted**: ODD restates history as late commits land, so a dip at the tail is incompleteness until a later snapshot confirms it. For trend claims, recompute the whole series from a single snapshot — never stitch dated files together.`,
+              ]
+            : []),
+        '',
+    ].join('\n');
+}
+
+function monthly(ends: CleanMadWindow[], cal: CleanMadWindow | null, year: number, c: Ctx) {
+    const L = c.label;
+    const label = (w: CleanMadWindow) =>
+        w.to === c.latest && w.to !== monthEnd(year, +w.to.slice(5, 7))
+            ? `${short(w.to)} (horizon)`
+            : short(w.to);
+    const mon = (w: CleanMadWindow) => MONTHS[+w.to.slice(5, 7) - 1];
+    const cleanFrom = ends.findIndex((w) => w.only_devs > 0);
+    const since = c.rules.length === 1 ? c.rules[0].since : undefined;
+    const notes: string[] = [];
+    if (cleanFrom > 0)
+        notes.push(
+            `${cleanFrom > 1 ? `${mon(ends[0])}–${mon(ends[cleanFrom - 1])} are` : `${mon(ends[0])} is`} uncontaminated (zero ${L} attribution).`,
+        );
+    if (cleanFrom >= 0)
+        notes.push(
+            `${since ? `The rule dates the misattribution from **${since}**; ` : ''}${mon(ends[cleanFrom])} onward is contaminated.`,
+        );
+    const last = ends[ends.length - 1];
+    if (last?.to === c.latest && last.to !== monthEnd(year, +last.to.slice(5, 7)))
+        notes.push(
+            `${short(last.to)} is the data horizon, not a month-end, and as the freshest horizon it is an undercount.`,
+        );
+    const calMonth = cal ? +cal.from.slice(5, 7) : 0;
+    const partial = cal ? cal.to !== monthEnd(year, calMonth) : false;
+    return [
+        `# Clean MAD (${L} removed) — ${year} month-end series`,
+        '',
+        `Source: local extract built from canonical Electric Capital ODD snapshot \`${c.snapshot}\` (horizon ${c.latest}), recomputed by \`/api/report/clean-mad\`. ${verified(ends, 'month-end windows')}`,
+        '',
+        cleanRule(c).replace('window activity', 'Stellar-repo activity in the window'),
+        '',
+        'Every row here comes from ONE snapshot, so the series is internally comparable. ODD restates history, so these numbers will drift upward as real-repo commits land late — never mix a row from this table with a row read off a different snapshot.',
+        '',
+        '## Month-end (28-day rolling window)',
+        '',
+        table(
+            [
+                'month-end',
+                'official',
+                `${L}-only removed`,
+                '**clean MAD**',
+                'clean full_time',
+                'official commits',
+                '**clean commits**',
+            ],
+            ['---', '---:', '---:', '---:', '---:', '---:', '---:'],
+            ends.map((w) => [
+                label(w),
+                n(w.all_devs),
+                n(w.only_devs),
+                `**${n(w.clean)}**`,
+                n(cleanFullTime(w)),
+                n(w.commits),
+                `**${n(w.commits - w.matched_commits)}**`,
+            ]),
+        ),
+        ...(notes.length ? ['', notes.join(' ')] : []),
+        ...(cal
+            ? [
+                  '',
+                  `## ${MONTH_NAMES[calMonth - 1]} ${partial ? 'month-to-date' : 'calendar month'} (calendar window, NOT 28-day)`,
+                  '',
+                  table(
+                      ['window', 'span', 'official', `${L}-only`, '**clean**'],
+                      ['---', '---', '---:', '---:', '---:'],
+                      [
+                          [
+                              `${short(cal.from)}–${+cal.to.slice(8, 10)}`,
+                              `${cal.from} → ${cal.to}`,
+                              n(cal.recount),
+                              n(cal.only_devs),
+                              `**${n(cal.clean)}**`,
+                          ],
+                      ],
+                  ),
+                  '',
+                  'Not comparable to the 28-day rows above — different window length.',
+              ]
+            : []),
+        '',
+    ].join('\n');
+}
+
+/** Builds the report for ?date=yyyy-mm-dd | ?month=yyyy[-mm] | ?series=yyyy-mm (exactly
+ *  one), or throws a 4xx. */
+export async function cleanMadReport(p: URLSearchParams): Promise<Report> {
+    const given = (['date', 'month', 'series'] as const).filter((k) => p.get(k));
+    if (given.length !== 1) throw error(400, 'Pass exactly one of ?date=, ?month= or ?series=.');
+    const kind = given[0];
+    const v = p.get(kind)!;
+    const span = await getMadSpan();
+    if (!span) throw error(404, 'The extract has no eco_mads rows.');
+    const rules = await loadExclusions();
+    const c: Ctx = {
+        snapshot: (await meta()).snapshot_version ?? 'unknown',
+        latest: span.last,
+        rules,
+        label: rules.length === 1 ? (rules[0].label ?? rules[0].id) : 'excluded',
+    };
+    const inRange = (d: string) => d >= span.first && d <= span.last;
+
+    if (kind === 'date') {
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(v)) throw error(400, `"${v}" is not a date.`);
+        if (!inRange(v))
+            throw error(404, `No eco_mads row for ${v} (${span.first} → ${span.last}).`);
+        const [w] = await getCleanMad([window28(v)]);
+        const recent = await getMatchedDays(v, RECENT_DAYS);
+        return { name: `clean-mad-${v}`, markdown: daily(w, recent, c), ok: check(w) };
+    }
+
+    if (kind === 'series') {
+        if (!/^\d{4}-\d{2}$/.test(v)) throw error(400, `"${v}" is not a month (yyyy-mm).`);
+        const [y, m] = v.split('-').map(Number);
+        const days: string[] = [];
+        for (let d = `${v}-01`; d <= monthEnd(y, m); d = shiftDay(d, 1))
+            if (inRange(d)) days.push(d);
+        if (!days.length)
+            throw error(404, `No eco_mads days in ${v} (${span.first} → ${span.last}).`);
+        const ws = await getCleanMad(days.map(window28));
+        return { name: `clean-mad-series-${v}`, markdown: series(ws, v, c), ok: ws.every(check) };
+    }
+
+    const m = /^(\d{4})(?:-(\d{2}))?$/.exec(v);
+    if (!m) throw error(400, `"${v}" is not a year (yyyy) or month (yyyy-mm).`);
+    const year = +m[1];
+    // month-ends through the asked month (or December), the horizon standing in for one
+    // that hasn't happened yet; the calendar table is the asked month, or the horizon's
+    const through = m[2] ? +m[2] : 12;
+    const ends: string[] = [];
+    for (let k = 1; k <= through; k++) {
+        const end = monthEnd(year, k);
+        const d =
+            end > span.last && `${span.last.slice(0, 7)}` === end.slice(0, 7) ? span.last : end;
+        if (inRange(d)) ends.push(d);
+    }
+    if (!ends.length)
+        throw error(404, `No month-ends of ${v} in eco_mads (${span.first} → ${span.last}).`);
+    const calMonth = m[2] ? v : span.last.startsWith(`${year}-`) ? span.last.slice(0, 7) : null;
+    const calSpan = calMonth
+        ? {
+              from: `${calMonth}-01`,
+              to: [monthEnd(year, +calMonth.slice(5, 7)), span.last].sort()[0],
+          }
+        : null;
+    const rows = await getCleanMad([
+        ...ends.map(window28),
+        ...(calSpan && calSpan.from <= span.last ? [calSpan] : []),
+    ]);
+    const windows = rows.slice(0, ends.length);
+    const cal = rows[ends.length] ?? null;
+    return {
+        name: `clean-mad-monthly-${v}`,
+        markdown: monthly(windows, cal, year, c),
+        ok: windows.every(check),
+    };
+}
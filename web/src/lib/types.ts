@@ -17,6 +17,13 @@ export interface ChartLine {
     dash?: string;
 }
 
+/** A shaded lo–hi band for Chart.svelte (e.g. a forecast's uncertainty), under the lines. */
+export interface ChartRange {
+    name: string;
+    color: string;
+    data: { day: string; lo: number; hi: number }[];
+}
+
 /** A bar series for Chart.svelte (drawn faintly behind the lines). */
 export interface ChartBars {
     name: string;
@@ -27,6 +34,16 @@ export interface ChartBars {
     stack?: { name: string; color: string; data: ChartPoint[] };
 }
 
+/** A vertical marker on Chart.svelte (e.g. a detected level shift), labeled at the top. */
+export interface ChartMark {
+    day: string;
+    label: string;
+    color: string;
+    /** Hover text. */
+    title?: string;
+    dash?: string;
+}
+
 // ---- /api/mad ----
 
 /** 28-day windowed metrics from eco_mads. */
@@ -36,6 +53,22 @@ export interface WindowedRow {
     exclusive_devs: number;
     multichain_devs: number;
     num_commits: number;
+    /** Electric Capital's own contribution-rank split of all_devs. */
+    full_time_devs: number;
+    part_time_devs: number;
+    one_time_devs: number;
+}
+
+/** Developer class, from active days over the trailing 84 days (see queries.ts). */
+export type DevClass = 'full_time' | 'part_time' | 'one_time';
+
+/** Clean devs in the 28-day window ending `day`, split by class (recomputed from
+ *  dev_day with exclusion rules applied, so it sums to the clean MAD). */
+export interface ClassRow {
+    day: string;
+    full_time: number;
+    part_time: number;
+    one_time: number;
 }
 
 /** Daily (un-windowed) activity from daily_activity. */
@@ -43,17 +76,19 @@ export interface DailyRow {
     day: string;
     daily_active_devs: number;
     daily_commits: number;
-    /** TEMPORARY (winget-pkgs fork bug): of `daily_active_devs`, how many touched
-     *  ONLY the stellar/winget-pkgs fork that day. `daily_active_devs` is unchanged. */
-    winget_only_devs: number;
+    /** Of `daily_active_devs`, how many had ONLY rule-matched activity that day (see
+     *  ExclusionRule). `daily_active_devs` is unchanged and stays the total. */
+    excluded_devs: number;
 }
 
-/** TEMPORARY (winget-pkgs fork bug): per-day count of developers whose ONLY activity
- *  in the trailing 28 days was the stellar/winget-pkgs fork. Subtract from
- *  `WindowedRow.all_devs` for the "clean" MAD. Only days with a nonzero count are sent. */
-export interface PhantomRow {
+/** Per-day slice of the 28-day window that the exclusion rules remove: developers
+ *  dropped from the window, and the windowed commits that go with them. Subtract from
+ *  `WindowedRow.all_devs` / `num_commits` for the "clean" series. Only days with a
+ *  nonzero slice are sent. */
+export interface ExclusionRow {
     day: string;
     devs: number;
+    commits: number;
 }
 
 /** Fresher MAD points captured from developerreport.com by `snapshot-api`
@@ -74,15 +109,69 @@ export interface Meta {
     ecosystem_id?: string;
 }
 
+/** The extract the server has loaded (see db.ts hot reload). */
+export interface DbStatus {
+    path: string;
+    snapshot_version: string | null;
+    loaded_at: string;
+    file_mtime: string;
+}
+
+/** An archived extract /restatements can diff against (see STELLAR_DB_COMPARE). */
+export interface CompareFile {
+    name: string;
+    mtime: string;
+}
+
 export interface MadResponse {
     windowed: WindowedRow[];
     daily: DailyRow[];
     api: ApiRow[];
-    /** TEMPORARY (winget-pkgs fork bug) — see PhantomRow. */
-    phantom: PhantomRow[];
+    exclusions: Exclusions;
+    /** Covers at most the last CLASS_RANGE days of the requested range. */
+    classes: ClassRow[];
     meta: Meta;
 }
 
+// ---- exclusion rules (/api/exclusions) ----
+
+/** A misattributed repo / owner / developer to take out of the "clean" series.
+ *  Source of truth is the version-controlled exclusions.json at the repo root, so a
+ *  rule can be retired (`"active": false`, or deleted) without a code change.
+ *
+ *  `mode` is how a matched activity row is treated:
+ *   - `only-activity`: a developer is dropped only if EVERY row of theirs in the window
+ *     matched; anyone who also touched a real repo stays, with all their commits.
+ *   - `repo`: matched rows are removed outright, so a developer with other activity
+ *     stays but loses the matched commits.
+ *  Both modes give the same developer count; they differ only in commits. */
+export interface ExclusionRule {
+    id: string; // stable slug, e.g. 'winget-pkgs'
+    title: string;
+    mode: 'repo' | 'only-activity';
+    repos?: number[]; // repo ids
+    owners?: string[]; // GitHub owner globs, e.g. 'stellar-mirror-*'
+    devs?: number[]; // canonical_developer_id
+    active?: boolean; // default true
+    since?: string; // yyyy-mm-dd the misattribution began (informational)
+    label?: string; // short name in the clean-MAD reports, e.g. 'winget'
+    description?: string;
+    url?: string;
+}
+
+/** The active rules with their combined and per-rule window slices. `byRule` is keyed
+ *  by rule id and measures each rule on its own, so a rule's impact stays visible even
+ *  where rules overlap. */
+export interface Exclusions {
+    rules: ExclusionRule[];
+    combined: ExclusionRow[];
+    byRule: Record<string, ExclusionRow[]>;
+}
+
+export interface ExclusionsResponse {
+    rules: ExclusionRule[];
+}
+
 // ---- /api/repos ----
 
 /** A repo leaderboard row over a trailing window. */
@@ -116,11 +205,41 @@ export interface DevAgg {
     c90: number;
     a90: number;
     r90: number;
+    /** Id of the exclusion rule that drops this developer from the 90-day window (all of
+     *  their activity matched), or null. 'multiple' when no single rule covers it all. */
+    excluded: string | null;
+    /** Class at the horizon (null if not active in the last 28 days). */
+    dev_class: DevClass | null;
+}
+
+/** Who carries a repo over one window, from its commits in repo_day. */
+export interface RepoHealth {
+    /** Fewest devs who together made half the window's commits. */
+    bus_factor: number;
+    /** The top contributor's share of the window's commits, 0–1. */
+    top_share: number;
+    /** Herfindahl index (HHI) of commit shares: 1 = one person, 1/n = n equal
+     *  contributors. Not a Gini, which reads 0 (perfectly even) for a one-person repo. */
+    hhi: number;
+    /** Share of the window-before's devs who committed again in this one; null if nobody
+     *  committed then. */
+    retention: number | null;
+}
+
+/** RepoHealth per window (null: no commits in it), and days from the last commit to
+ *  the repo_day horizon. */
+export interface RepoHealthWindows {
+    h28: RepoHealth | null;
+    h60: RepoHealth | null;
+    h90: RepoHealth | null;
+    idle_days: number;
 }
 
 /** Per-repo devs+commits across the 28/60/90-day windows (loaded once; the leaderboard
- *  picks a window + sort client-side). */
-export interface RepoAgg {
+ *  picks a window + sort client-side). `p28`… are devs in the equal-length window just
+ *  before, for the momentum modes. */
+export interface RepoAgg extends RepoHealthWindows {
+    repo_id: number;
     repo: string; // owner/repo (display)
     url: string; // full GitHub URL (href)
     last_active_day: string;
@@ -130,6 +249,13 @@ export interface RepoAgg {
     c60: number;
     d90: number;
     c90: number;
+    p28: number;
+    p60: number;
+    p90: number;
+    /** Rolling 28-day devs sampled weekly, oldest first, ending at the horizon. */
+    spark: number[];
+    /** Id of the exclusion rule matching this repo, or null. */
+    excluded: string | null;
 }
 
 // ---- /api/diagnose ----
@@ -161,13 +287,481 @@ export interface SurgeDay {
     base: number;
 }
 
+/** A sustained level shift in a windowed MAD series, found by CUSUM (queries.ts has
+ *  the method). `before` is the level it moved away from, `after` the level on its
+ *  `through` day. */
+export interface ChangePoint {
+    /** 'both': the clean line shifted too (numbers are the official line's). */
+    series: 'official' | 'clean' | 'both';
+    direction: 'drop' | 'rise';
+    /** Estimated first day of the shift. */
+    start: string;
+    /** Day it was detected: when an alert would have gone out. */
+    day: string;
+    /** Last day it was still being detected (the shift kept moving until then). */
+    through: string;
+    before: number;
+    after: number;
+    /** after / before − 1 */
+    change: number;
+}
+
 export interface DiagnoseResponse {
     cohort: CohortRow[];
     intensity: Intensity;
     surgeDays: SurgeDay[];
+    /** Level shifts over the trailing two years, oldest first. */
+    changes: ChangePoint[];
     window: number;
 }
 
+// ---- window-to-window delta (/compare/[from]/[to]) ----
+
+/** A dev who entered (active in the `to` window, not `from`) or left the window, with
+ *  the repos they touched in the window they count toward, most commits first. */
+export interface CompareDev {
+    dev: number;
+    side: 'entered' | 'left';
+    name: string | null;
+    login: string | null;
+    commits: number;
+    repos: string[];
+}
+
+/** Devs that entered/left via this repo. Overlapping: a dev counts on every repo. */
+export interface CompareRepo {
+    repo_id: number;
+    repo: string;
+    url: string;
+    entered: number;
+    left: number;
+    net: number;
+    excluded: string | null;
+}
+
+/** Same, per owner, with each dev credited to one primary repo so nets sum to the delta. */
+export interface CompareOwner {
+    owner: string;
+    entered: number;
+    left: number;
+    net: number;
+}
+
+export interface CompareDetail {
+    from: string;
+    to: string;
+    /** Distinct devs in each 28-day window, from dev_day. */
+    from_devs: number;
+    to_devs: number;
+    entered: number;
+    left: number;
+    /** eco_mads all_devs on each anchor day (null if the day isn't in the series). */
+    official_from: number | null;
+    official_to: number | null;
+    owners: CompareOwner[];
+    repos: CompareRepo[];
+    devs: CompareDev[];
+}
+
+// ---- exit schedule (MAD roll-off projection) ----
+
+/** One day past the horizon: `devs` leave the window that day; `projected` is all_devs
+ *  after them, assuming nobody new commits. */
+export interface RollOffDay {
+    day: string;
+    devs: number;
+    projected: number;
+}
+
+/** Devs leaving the window on `day` who touched `repo` in it (top 5 repos per day). */
+export interface RollOffRepo {
+    day: string;
+    repo: string;
+    url: string;
+    devs: number;
+}
+
+export interface RollOff {
+    /** Latest eco_mads day — the projection starts from its all_devs. */
+    from: string;
+    all_devs: number;
+    days: RollOffDay[];
+    repos: RollOffRepo[];
+}
+
+// ---- gap-week nowcast ----
+
+/** The nowcast for one day past the horizon, with its backtested band. */
+export interface NowcastDay {
+    day: string;
+    /** Days past the horizon. */
+    lead: number;
+    /** The part already known: the horizon's all_devs less roll-offs. */
+    retained: number;
+    value: number;
+    lo: number;
+    hi: number;
+}
+
+/** Backtest accuracy at one lead, relative to the official MAD that later settled. */
+export interface NowcastError {
+    lead: number;
+    /** Mean absolute error, as a fraction. */
+    mape: number;
+    /** Mean signed error (positive: the nowcast ran high). */
+    bias: number;
+    /** Mean absolute error of carrying the horizon's value forward, for scale. */
+    naive_mape: number;
+}
+
+export interface Nowcast {
+    /** The horizon the nowcast starts from (latest eco_mads day). */
+    from: string;
+    all_devs: number;
+    days: NowcastDay[];
+    errors: NowcastError[];
+    /** How many past horizons the backtest re-ran the model from. */
+    horizons: number;
+    /** Share of backtest errors the band spans (the central one). */
+    coverage: number;
+}
+
+// ---- org + group rollups (/org/[owner], /group/[id]) ----
+
+/** A user-defined repo group from groups.json: the owner/repo names matching `pattern`
+ *  (a case-insensitive regex) plus any listed in `repos`. */
+export interface RepoGroup {
+    id: string; // stable slug, e.g. 'sdks'
+    title: string;
+    pattern?: string;
+    repos?: string[];
+    description?: string;
+}
+
+/** One day of a rollup: distinct devs across its repos in the 28 days to `day` (a dev
+ *  on several of them counts once), that day's commits, and the official MAD for scale. */
+export interface RollupHistoryRow {
+    day: string;
+    devs: number;
+    commits: number;
+    mad: number | null;
+}
+
+/** A repo in a rollup, active in the last 90 days. */
+export interface RollupRepoRow {
+    repo: string;
+    url: string;
+    d28: number;
+    c28: number;
+    d90: number;
+    c90: number;
+    last_active_day: string;
+}
+
+export interface RollupDetail {
+    kind: 'org' | 'group';
+    /** GitHub owner, or group id. */
+    key: string;
+    title: string;
+    description: string | null;
+    /** Repos in the extract it covers (active or not). */
+    repo_count: number;
+    history: RollupHistoryRow[];
+    repos: RollupRepoRow[];
+}
+
+/** A rollup's rolling 28-day devs, as a selectable line on the main chart. */
+export interface RollupSeries {
+    kind: 'org' | 'group';
+    key: string;
+    title: string;
+    data: ChartPoint[];
+}
+
+// ---- acquisition cohorts (/cohorts) ----
+
+/** Developers from one acquisition cohort (month of first clean commit, yyyy-mm) who
+ *  were active in `month`. `offset` is months since the cohort; offset 0 is its size. */
+export interface CohortCell {
+    cohort: string;
+    month: string;
+    offset: number;
+    devs: number;
+}
+
+export interface CohortMatrix {
+    cells: CohortCell[];
+    /** Last day in the extract — the latest month column is partial up to here. */
+    horizon: string;
+    months: number;
+}
+
+/** One developer in a cohort. `month_days` = active days in the selected month (the
+ *  cohort month itself when none is selected). */
+export interface CohortDevRow {
+    dev: number;
+    name: string | null;
+    login: string | null;
+    first_day: string;
+    last_active: string;
+    active_days: number;
+    commits: number;
+    month_days: number;
+}
+
+export interface CohortDetail {
+    cohort: string;
+    month: string | null;
+    /** Whole cohort, before any month filter. */
+    size: number;
+    devs: CohortDevRow[];
+}
+
+// ---- clean-MAD reports (/api/report/clean-mad) ----
+
+/** One window [from, to] recounted from repo_day. `only_devs` had nothing but
+ *  rule-matched activity in it (dropped from clean); `touchers` had any. The `only_*`
+ *  class counts use the dashboard's class approximation on full activity; the eco_mads
+ *  columns are null when `to` isn't an eco_mads day. */
+export interface CleanMadWindow {
+    from: string;
+    to: string;
+    recount: number;
+    touchers: number;
+    only_devs: number;
+    clean: number;
+    commits: number;
+    matched_commits: number;
+    only_full_time: number;
+    only_part_time: number;
+    only_one_time: number;
+    all_devs: number | null;
+    full_time_devs: number | null;
+    part_time_devs: number | null;
+    one_time_devs: number | null;
+    exclusive_devs: number | null;
+    multichain_devs: number | null;
+    devs_0_1y: number | null;
+    devs_1_2y: number | null;
+    devs_2y_plus: number | null;
+}
+
+/** Devs and commits on rule-matched rows for one day. */
+export interface MatchedDay {
+    day: string;
+    devs: number;
+    commits: number;
+}
+
+// ---- churn + reactivation (/churn) ----
+
+/** A once-regular developer with no activity since `last_day`. `recent_days` are their
+ *  active days in the lookback before it — what made them regular. */
+export interface ChurnedDev {
+    dev: number;
+    name: string | null;
+    login: string | null;
+    first_day: string;
+    last_day: string;
+    idle_days: number;
+    tenure_days: number;
+    active_days: number;
+    recent_days: number;
+    commits: number;
+    /** Repos of the 28 days up to last_day, most commits first. */
+    repos: string[];
+}
+
+/** A developer who came back on `back_day` after `gap_days` without a commit. */
+export interface ReactivatedDev {
+    dev: number;
+    name: string | null;
+    login: string | null;
+    first_day: string;
+    prev_day: string;
+    back_day: string;
+    gap_days: number;
+    /** Active days up to prev_day, and since back_day. */
+    days_before: number;
+    days_since: number;
+    /** Repos since back_day, most commits first. */
+    repos: string[];
+}
+
+export interface ChurnResponse {
+    horizon: string;
+    /** The thresholds used: active days in the lookback, days silent, and return gap. */
+    min_days: number;
+    idle: number;
+    gap: number;
+    lookback: number;
+    /** How far back a return can land to count as a reactivation. */
+    recent: number;
+    churned: ChurnedDev[];
+    reactivated: ReactivatedDev[];
+}
+
+// ---- ODD vs developerreport.com (/reconcile) ----
+
+/** Which of the three series a ReconRow is over the threshold on. */
+export type ReconSeries = 'total' | 'single' | 'multi';
+
+/** One API point next to eco_mads on the same day: `total` / `single_chain` /
+ *  `multi_chain` against `all_devs` / `exclusive_devs` / `multichain_devs`. The `d_*`
+ *  are API − ODD (null past the extract's horizon) and `pct_*` the same as a percent of
+ *  the ODD value. */
+export interface ReconRow {
+    day: string;
+    total: number | null;
+    single_chain: number | null;
+    multi_chain: number | null;
+    all_devs: number | null;
+    exclusive_devs: number | null;
+    multichain_devs: number | null;
+    d_total: number | null;
+    d_single: number | null;
+    d_multi: number | null;
+    pct_total: number | null;
+    pct_single: number | null;
+    pct_multi: number | null;
+    over: ReconSeries[];
+    /** Times `snapshot-api` has seen this point change. */
+    revisions: number;
+}
+
+/** One value an API point has had (a `mad_api_revisions` row). The `d_*` are the change
+ *  from its previous value, null for the first capture. */
+export interface ApiRevision {
+    day: string;
+    captured_at: string;
+    total: number | null;
+    single_chain: number | null;
+    multi_chain: number | null;
+    d_total: number | null;
+    d_single: number | null;
+    d_multi: number | null;
+}
+
+export interface ReconResponse {
+    /** Percent of the ODD value past which a point is flagged. */
+    threshold: number;
+    horizon: string | null;
+    rows: ReconRow[];
+    /** Every capture of the points that have been restated, newest point first; null
+     *  when the extract has no revision log yet (snapshot-api hasn't run since it). */
+    revisions: ApiRevision[] | null;
+    captures: number;
+}
+
+// ---- snapshot restatements (/restatements) ----
+
+/** How a repo or developer differs between the two extracts over their shared days:
+ *  only in the loaded one, only in the archived one, or in both with other numbers. */
+export type RestatementKind = 'added' | 'removed' | 'changed';
+
+/** One shared day whose numbers moved, loaded minus archived (`d_*`). The daily commit
+ *  change is split by where it landed: repos present in both extracts (late commits
+ *  backfilled, or rows revised) and repos only one of them attributes to Stellar. */
+export interface RestatedDay {
+    day: string;
+    prev_mad: number | null;
+    cur_mad: number | null;
+    d_mad: number | null;
+    d_exclusive: number | null;
+    d_multichain: number | null;
+    prev_devs: number | null;
+    cur_devs: number | null;
+    d_devs: number | null;
+    prev_commits: number | null;
+    cur_commits: number | null;
+    d_commits: number | null;
+    d_commits_backfill: number;
+    d_commits_attribution: number;
+}
+
+export interface RestatedRepo {
+    repo_id: number;
+    repo: string | null;
+    url: string | null;
+    kind: RestatementKind;
+    prev_commits: number;
+    cur_commits: number;
+    d_commits: number;
+    prev_devs: number;
+    cur_devs: number;
+    d_devs: number;
+    /** First and last shared day whose commits differ. */
+    first_day: string | null;
+    last_day: string | null;
+}
+
+export interface RestatedDev {
+    dev: number;
+    name: string | null;
+    login: string | null;
+    kind: RestatementKind;
+    prev_commits: number;
+    cur_commits: number;
+    d_commits: number;
+    prev_days: number;
+    cur_days: number;
+    d_days: number;
+    first_day: string | null;
+    last_day: string | null;
+}
+
+export interface RestatementSide {
+    snapshot: string | null;
+    horizon: string | null;
+}
+
+export interface RestatementResponse {
+    files: CompareFile[];
+    /** The archived extract compared against; null when none is configured. */
+    against: string | null;
+    cur: RestatementSide;
+    prev: RestatementSide | null;
+    /** The shared days compared. */
+    from: string | null;
+    to: string | null;
+    days: RestatedDay[];
+    repos: RestatedRepo[];
+    devs: RestatedDev[];
+    /** Totals before the repo/dev lists are cut to RESTATE_LIMIT. */
+    repo_counts: Record<RestatementKind, number>;
+    dev_counts: Record<RestatementKind, number>;
+    /** Days past the archived horizon: new activity, not a restatement. */
+    new_days: number;
+    new_commits: number;
+}
+
+// ---- data audit (/health/data) ----
+
+/** `skip`: the check's input isn't in the extract (e.g. no mad_api_history yet). */
+export type AuditStatus = 'pass' | 'fail' | 'skip';
+
+/** One consistency check over the loaded extract. `checked` counts what was examined
+ *  (days, repos, devs — see `unit`), `failed` how many of those are off; `sample` holds
+ *  up to AUDIT_SAMPLE of the offending rows, or the compared values when there are few. */
+export interface AuditCheck {
+    id: string;
+    title: string;
+    status: AuditStatus;
+    detail: string;
+    unit: string;
+    checked: number;
+    failed: number;
+    sample: Record<string, string | number | null>[];
+}
+
+export interface DataAudit {
+    snapshot: string | null;
+    horizon: string | null;
+    /** No check failed (skips don't count against it). */
+    ok: boolean;
+    checks: AuditCheck[];
+}
+
 // ---- drill-down detail pages (/dev/[login], /repo/[...slug]) ----
 
 /** Per-window (28/60/90d) + all-time commits & active-days. The detail pages pick a
@@ -189,10 +783,34 @@ export interface DevRepoRow extends WindowMetrics {
     repo: string;
     url: string;
 }
+/** One day a developer committed (anywhere in Stellar). */
+export interface DevDayRow {
+    day: string;
+    commits: number;
+}
+
+export interface DevMonthRow {
+    month: string; // yyyy-mm
+    days: number;
+    commits: number;
+}
+
 export interface DevDetail {
     login: string;
     name: string | null;
     repos: DevRepoRow[];
+    /** Last day in the extract — the calendar ends here. */
+    horizon: string;
+    first_day: string | null;
+    last_day: string | null;
+    days: DevDayRow[];
+    monthly: DevMonthRow[];
+    /** Longest run of consecutive active days (latest wins a tie). */
+    longest: { start: string; end: string; days: number } | null;
+    /** Length of the run ending on the horizon; 0 if they weren't active that day. */
+    current: number;
+    /** Timeline events they committed during, with their activity inside the dates. */
+    events: { event: TimelineEvent; days: number; commits: number }[];
 }
 
 /** One developer who has committed to a repo. */
@@ -201,10 +819,26 @@ export interface RepoDevRow extends WindowMetrics {
     name: string | null;
     login: string | null;
 }
+/** One day of a repo's history: distinct devs in the 28-day window ending that day —
+ *  `new_devs` first touched the repo inside it, `returning_devs` had before — plus that
+ *  day's commits. */
+export interface RepoHistoryRow {
+    day: string;
+    devs: number;
+    new_devs: number;
+    returning_devs: number;
+    commits: number;
+}
+
 export interface RepoDetail {
     repo: string;
     url: string;
+    first_seen: string | null;
+    last_seen: string | null;
     devs: RepoDevRow[];
+    history: RepoHistoryRow[];
+    /** null when the repo has had no commits in the last 180 days. */
+    health: RepoHealthWindows | null;
 }
 
 // ---- day drill-down (/day/[date]) ----
@@ -221,6 +855,8 @@ export interface DayPair {
     login: string | null;
     is_bot: boolean;
     commits: number;
+    /** Id of the exclusion rule matching this pair, or null. */
+    excluded: string | null;
 }
 
 export interface DayDetail {
@@ -236,6 +872,37 @@ export interface DayDetail {
     latest: string;
 }
 
+// ---- /range/[start]/[end] ----
+
+/** A (repo, dev) pair summed over a range; `days` is how many of them it was active. */
+export interface RangePair extends DayPair {
+    days: number;
+}
+
+/** One calendar day inside a range — zeros on a day nobody was active. `clean_*` drop
+ *  activity matched by an exclusion rule. */
+export interface RangeDay {
+    day: string;
+    devs: number;
+    commits: number;
+    clean_devs: number;
+    clean_commits: number;
+}
+
+export interface RangeDetail {
+    start: string;
+    end: string;
+    /** Calendar days in the range, both ends included. */
+    span: number;
+    /** Every (repo, dev) pair active in the range, summed over it. */
+    pairs: RangePair[];
+    /** Of devs active in the range: how many also committed in the 28d before it (returning) vs not (fresh). */
+    cohort: { total: number; returning: number; fresh: number };
+    daily: RangeDay[];
+    earliest: string;
+    latest: string;
+}
+
 // ---- /api/events ----
 
 /** A curated timeline event (bounty program, hackathon, …) to annotate the chart.
@@ -247,8 +914,93 @@ export interface TimelineEvent {
     end: string; // yyyy-mm-dd (inclusive)
     description?: string;
     url?: string;
+    /** Calendar UID, pinned to the old slug the first time the event is renamed; absent
+     *  until then, when the UID is just the slug. */
+    uid?: string;
+}
+
+/** Result of importing an .ics file into events.json (or of previewing it). */
+export interface EventImport {
+    added: TimelineEvent[];
+    /** Same partner + title as an existing event, with different dates. */
+    updated: TimelineEvent[];
+    /** Already there with the same title and dates. */
+    unchanged: TimelineEvent[];
+    rejected: { summary: string; start: string; problem: string }[];
+    /** events.json version after the write; null for a preview or when nothing changed. */
+    version: string | null;
 }
 
 export interface EventsResponse {
     events: TimelineEvent[];
+    /** Content hash of events.json; writes send it back as If-Match. */
+    version: string;
+}
+
+// ---- event impact (/event, /event/[slug]) ----
+
+/** How one event moved activity, measured on clean activity (exclusion rules applied).
+ *  `base_*` is the equal-length window right before `start`; the daily figures compare
+ *  the mean daily active devs in the window against the 28 days before it. `new_devs`
+ *  are participants whose first-ever Stellar commit fell inside the window.
+ *  `rN` / `new_rN`: of all participants / of the new ones, how many were active in the
+ *  28-day block ending N days after `end` — null until the extract covers that block. */
+export interface EventImpact {
+    slug: string;
+    days: number;
+    devs: number;
+    commits: number;
+    base_devs: number;
+    base_commits: number;
+    daily_devs: number | null;
+    base_daily_devs: number | null;
+    new_devs: number;
+    r28: number | null;
+    r56: number | null;
+    r84: number | null;
+    new_r28: number | null;
+    new_r56: number | null;
+    new_r84: number | null;
+}
+
+/** A repo that carried an event: its devs/commits in the window, how many of those devs
+ *  were first-timers, and its devs in the equal-length window before. */
+export interface EventRepoRow {
+    repo: string; // owner/repo (display)
+    url: string; // full GitHub URL (href)
+    devs: number;
+    commits: number;
+    new_devs: number;
+    base_devs: number;
+}
+
+/** Clean daily activity around an event (28 days either side). */
+export interface EventDay {
+    day: string;
+    devs: number;
+    commits: number;
+}
+
+export interface EventDetail {
+    event: TimelineEvent;
+    impact: EventImpact;
+    repos: EventRepoRow[];
+    daily: EventDay[];
+}
+
+// ---- search (/api/search, the header's command palette) ----
+
+/** One palette entry. `key` is what its page is addressed by: the date, owner/repo,
+ *  GitHub login or event slug. `score` is 0–1 (1 = exact match). */
+export interface SearchHit {
+    kind: 'day' | 'repo' | 'dev' | 'event';
+    key: string;
+    label: string;
+    detail: string | null;
+    score: number;
+}
+
+export interface SearchResponse {
+    q: string;
+    hits: SearchHit[];
 }
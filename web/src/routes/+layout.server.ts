@@ -1,6 +1,12 @@
 // Extract provenance (snapshot version, parquet horizon, …) is site-global, so it
-// loads once at the layout level and feeds the header.
-import { meta } from '$lib/server/db';
+// loads once at the layout level and feeds the header. Read per request, so after a
+// hot reload (db.ts) the header names the snapshot actually being served.
+import { dbStatus, meta } from '$lib/server/db';
 import type { LayoutServerLoad } from './$types';
 
-export const load: LayoutServerLoad = async () => ({ meta: await meta() });
+export const load: LayoutServerLoad = async () => ({
+    meta: await meta(),
+    loadedAt: await dbStatus()
+        .then((s) => s.loaded_at)
+        .catch(() => null),
+});
@@ -5,33 +5,40 @@
 import {
     getMad,
     getDiagnose,
+    getRollOff,
+    getNowcast,
     getRepoAggregates,
     getDevAggregates,
+    getRollupSeries,
     loadEvents,
 } from '$lib/server/queries';
+import { timed } from '$lib/server/db';
+import { shiftDay } from '$lib/format';
 import type { PageServerLoad } from './$types';
 
-// 28 days before the parquet horizon = start of the current MAD window (UTC, no drift).
-const minusDays = (day: string, n: number): string =>
-    new Date(Date.UTC(+day.slice(0, 4), +day.slice(5, 7) - 1, +day.slice(8, 10)) - n * 86400000)
-        .toISOString()
-        .slice(0, 10);
-
 export const load: PageServerLoad = async ({ url, parent }) => {
     // Default load is bounded to 365 days (covers the 60/90/120/365 toggles via
     // client-side slicing — small payload). The `all` chart view escalates to the full
     // series via a single `?range=all` flag; navigating to it re-runs this load natively.
     const full = url.searchParams.get('range') === 'all';
 
-    // sequential: the DuckDB connection is a single shared handle
-    const mad = await getMad(full ? 100000 : 365);
-    const diag = await getDiagnose(400); // cohort/surge range (capped regardless)
-    const repos = await getRepoAggregates(); // 28/60/90-day windows; leaderboard derives
-    const devs = await getDevAggregates(); // top devs w/ identity; [] until resolve-devs
-    const events = await loadEvents();
+    // independent loaders run concurrently over the db.ts connection pool; each is timed
+    const [mad, diag, rolloff, nowcast, rollups, repos, devs, events, { meta }] = await Promise.all(
+        [
+            timed('getMad', () => getMad(full ? 100000 : 365)),
+            timed('getDiagnose', () => getDiagnose(400)), // cohort/surge range (capped regardless)
+            timed('getRollOff', () => getRollOff()), // next 28 days, independent of range
+            timed('getNowcast', () => getNowcast()), // the gap week, with its backtest
+            timed('getRollupSeries', () => getRollupSeries(full ? 100000 : 365)), // compare lines
+            timed('getRepoAggregates', () => getRepoAggregates()), // 28/60/90d; leaderboard derives
+            timed('getDevAggregates', () => getDevAggregates()), // w/ identity; [] until resolve-devs
+            loadEvents(),
+            parent(),
+        ],
+    );
 
-    const { meta } = await parent();
-    const windowStart = meta?.parquet_horizon ? minusDays(meta.parquet_horizon, 28) : null;
+    // 28 days before the parquet horizon = start of the current MAD window
+    const windowStart = meta?.parquet_horizon ? shiftDay(meta.parquet_horizon, -28) : null;
 
-    return { mad, diag, repos, devs, events, windowStart, full };
+    return { mad, diag, rolloff, nowcast, rollups, repos, devs, events, windowStart, full };
 };
@@ -0,0 +1,9 @@
+import { getChanges } from '$lib/server/queries';
+import { toAtom } from '$lib/server/alerts';
+import type { RequestHandler } from './$types';
+
+// Level-shift alerts as an Atom feed, for a chat integration to poll.
+export const GET: RequestHandler = async ({ url }) =>
+    new Response(toAtom(await getChanges(), url.origin), {
+        headers: { 'content-type': 'application/atom+xml; charset=utf-8' },
+    });
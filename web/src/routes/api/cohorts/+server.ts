@@ -0,0 +1,6 @@
+import { json } from '@sveltejs/kit';
+import { getCohorts } from '$lib/server/queries';
+import type { RequestHandler } from './$types';
+
+export const GET: RequestHandler = async ({ url }) =>
+    json(await getCohorts(Number(url.searchParams.get('months') || 24)));
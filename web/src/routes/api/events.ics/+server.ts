@@ -0,0 +1,52 @@
+import { error, json } from '@sveltejs/kit';
+import {
+    applyImport,
+    loadEvents,
+    loadEventsVersioned,
+    planImport,
+    updateEvents,
+} from '$lib/server/events';
+import { ifMatch, requireAdmin } from '$lib/server/admin';
+import { parseIcs, toIcs } from '$lib/server/ical';
+import type { EventImport } from '$lib/types';
+import type { RequestHandler } from './$types';
+
+// events.json as an iCalendar feed, for subscribing from a calendar app.
+export const GET: RequestHandler = async () =>
+    new Response(toIcs(await loadEvents(), new Date()), {
+        headers: {
+            'content-type': 'text/calendar; charset=utf-8',
+            'content-disposition': 'inline; filename="stellar-events.ics"',
+        },
+    });
+
+// Import a partner's .ics (the request body) into events.json. `?dry=1` only reports
+// what would change, and needs no token; `?partner=` names the partner for entries whose
+// organizer doesn't map to one. Otherwise like POST /api/events: token + If-Match.
+export const POST: RequestHandler = async ({ request, url }) => {
+    const dry = url.searchParams.get('dry') === '1';
+    let expected: string | null = null;
+    if (!dry) {
+        requireAdmin(request);
+        expected = ifMatch(request);
+    }
+    const parsed = parseIcs(await request.text());
+    if (!parsed.length) throw error(400, 'No events with a title and a start date in that file.');
+    const fallback = url.searchParams.get('partner') || null;
+
+    const { events, version } = await loadEventsVersioned();
+    let plan = planImport(events, parsed, fallback);
+    if (expected == null || !(plan.added.length || plan.updated.length)) {
+        if (expected != null && expected !== version)
+            throw error(409, 'events.json changed since you loaded it; reload and try again.');
+        return json({ ...plan, version: null } satisfies EventImport);
+    }
+    // re-planned under the write lock, against the file as it is then
+    const out = await updateEvents(expected, (current) => {
+        plan = planImport(current, parsed, fallback);
+        return applyImport(current, plan);
+    });
+    return json({ ...plan, version: out.version } satisfies EventImport, {
+        headers: { etag: `"${out.version}"` },
+    });
+};
@@ -1,9 +1,26 @@
 import { json } from '@sveltejs/kit';
-import { loadEvents } from '$lib/server/events';
+import { loadEventsVersioned, updateEvents, validateEvent } from '$lib/server/events';
+import { ifMatch, requireAdmin } from '$lib/server/admin';
+import type { TimelineEvent } from '$lib/types';
 import type { RequestHandler } from './$types';
 
 // Curated timeline events (programs/hackathons) for chart annotation.
-// Returns all events; the chart clips them to the visible window itself.
+// Returns all events; the chart clips them to the visible window itself. `version` (also
+// the ETag) is what a write sends back as If-Match.
 export const GET: RequestHandler = async () => {
-    return json({ events: await loadEvents() });
+    const { events, version } = await loadEventsVersioned();
+    return json({ events, version }, { headers: { etag: `"${version}"` } });
+};
+
+// Add an event. Body: { title, partner, start, end, url, description? }.
+export const POST: RequestHandler = async ({ request }) => {
+    requireAdmin(request);
+    const expected = ifMatch(request);
+    const body: unknown = await request.json().catch(() => null);
+    let event: TimelineEvent | null = null;
+    const out = await updateEvents(expected, (events) => {
+        event = validateEvent(body, events);
+        return [...events, event];
+    });
+    return json({ event, ...out }, { status: 201, headers: { etag: `"${out.version}"` } });
 };
@@ -0,0 +1,41 @@
+import { error, json } from '@sveltejs/kit';
+import { updateEvents, validateEvent } from '$lib/server/events';
+import { ifMatch, requireAdmin } from '$lib/server/admin';
+import { eventSlug } from '$lib/format';
+import type { TimelineEvent } from '$lib/types';
+import type { RequestHandler } from './$types';
+
+// Edit or remove one event, addressed by its /event/[slug] slug. Both need the admin
+// token and If-Match; see POST /api/events.
+const missing = (slug: string) => error(404, `No event "${slug}" in events.json.`);
+
+export const PUT: RequestHandler = async ({ params, request }) => {
+    requireAdmin(request);
+    const expected = ifMatch(request);
+    const body: unknown = await request.json().catch(() => null);
+    let event: TimelineEvent | null = null;
+    const out = await updateEvents(expected, (events) => {
+        const i = events.findIndex((e) => eventSlug(e) === params.slug);
+        if (i < 0) throw missing(params.slug);
+        const others = events.filter((_, j) => j !== i);
+        const next = validateEvent(body, others);
+        // keep fields the form doesn't know about (anything the CLI or a hand edit added)
+        const merged: TimelineEvent = { ...events[i], ...next };
+        if (!next.description) delete merged.description;
+        // a rename changes the slug; keep the calendar UID it had (see toIcs)
+        if (eventSlug(next) !== params.slug) merged.uid ??= params.slug;
+        event = merged;
+        return [...others, merged];
+    });
+    return json({ event, ...out }, { headers: { etag: `"${out.version}"` } });
+};
+
+export const DELETE: RequestHandler = async ({ params, request }) => {
+    requireAdmin(request);
+    const expected = ifMatch(request);
+    const out = await updateEvents(expected, (events) => {
+        if (!events.some((e) => eventSlug(e) === params.slug)) throw missing(params.slug);
+        return events.filter((e) => eventSlug(e) !== params.slug);
+    });
+    return json(out, { headers: { etag: `"${out.version}"` } });
+};
@@ -0,0 +1,9 @@
+import { json } from '@sveltejs/kit';
+import { loadExclusions } from '$lib/server/exclusions';
+import type { RequestHandler } from './$types';
+
+// Active exclusion rules behind the "clean" series. Their per-day impact rides along
+// in /api/mad (`exclusions`); this is the rule list alone.
+export const GET: RequestHandler = async () => {
+    return json({ rules: await loadExclusions() });
+};
@@ -0,0 +1,6 @@
+import { exportDataset } from '$lib/server/export';
+import type { RequestHandler } from './$types';
+
+// ?format=csv|json|parquet (default csv) plus the dataset's own params; see export.ts.
+export const GET: RequestHandler = async ({ params, url }) =>
+    exportDataset(params.dataset, url.searchParams);
@@ -0,0 +1,19 @@
+import { json } from '@sveltejs/kit';
+import { dbStatus, meta } from '$lib/server/db';
+import type { RequestHandler } from './$types';
+
+// Which extract is being served, and since when. 503 if it can't be opened at all.
+export const GET: RequestHandler = async () => {
+    try {
+        const status = await dbStatus();
+        const m = await meta();
+        return json({
+            ok: true,
+            ...status,
+            parquet_horizon: m.parquet_horizon ?? null,
+            extracted_at: m.extracted_at ?? null,
+        });
+    } catch (e) {
+        return json({ ok: false, error: String(e) }, { status: 503 });
+    }
+};
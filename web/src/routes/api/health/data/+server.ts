@@ -0,0 +1,10 @@
+import { json } from '@sveltejs/kit';
+import { getDataAudit } from '$lib/server/queries';
+import type { RequestHandler } from './$types';
+
+// The /health/data checks as JSON. 503 when any check fails, so a cron `curl -f` after
+// an extract rebuild stops the pipeline before a bad extract is quoted.
+export const GET: RequestHandler = async () => {
+    const audit = await getDataAudit();
+    return json(audit, { status: audit.ok ? 200 : 503 });
+};
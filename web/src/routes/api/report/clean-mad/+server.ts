@@ -0,0 +1,15 @@
+import { cleanMadReport } from '$lib/server/report';
+import type { RequestHandler } from './$types';
+
+// ?date=yyyy-mm-dd | ?series=yyyy-mm | ?month=yyyy[-mm]; see report.ts. x-self-check is
+// "fail" when a recount didn't match eco_mads, so scripts can refuse to publish it.
+export const GET: RequestHandler = async ({ url }) => {
+    const r = await cleanMadReport(url.searchParams);
+    return new Response(r.markdown, {
+        headers: {
+            'content-type': 'text/markdown; charset=utf-8',
+            'content-disposition': `inline; filename="${r.name}.md"`,
+            'x-self-check': r.ok ? 'pass' : 'fail',
+        },
+    });
+};
@@ -0,0 +1,6 @@
+import { json } from '@sveltejs/kit';
+import { search } from '$lib/server/queries';
+import type { RequestHandler } from './$types';
+
+export const GET: RequestHandler = async ({ url }) =>
+    json(await search(url.searchParams.get('q') ?? ''));
@@ -0,0 +1,10 @@
+import { getChurn } from '$lib/server/queries';
+import type { PageServerLoad } from './$types';
+
+export const load: PageServerLoad = async ({ url }) => ({
+    churn: await getChurn(
+        Number(url.searchParams.get('min') || 20),
+        Number(url.searchParams.get('idle') || 60),
+        Number(url.searchParams.get('gap') || 90),
+    ),
+});
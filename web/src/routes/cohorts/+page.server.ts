@@ -0,0 +1,7 @@
+import { getCohorts, loadEvents } from '$lib/server/queries';
+import type { PageServerLoad } from './$types';
+
+export const load: PageServerLoad = async ({ url }) => ({
+    matrix: await getCohorts(Number(url.searchParams.get('months') || 24)),
+    events: await loadEvents(),
+});
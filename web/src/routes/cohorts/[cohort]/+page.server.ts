@@ -0,0 +1,16 @@
+import { error } from '@sveltejs/kit';
+import { getCohortDetail } from '$lib/server/queries';
+import type { PageServerLoad } from './$types';
+
+const MONTH = /^\d{4}-\d{2}$/;
+
+export const load: PageServerLoad = async ({ params, url }) => {
+    if (!MONTH.test(params.cohort)) throw error(404, 'Cohort must be yyyy-mm');
+    const month = url.searchParams.get('month');
+    const detail = await getCohortDetail(
+        params.cohort,
+        month && MONTH.test(month) && month >= params.cohort ? month : null,
+    );
+    if (!detail.size) throw error(404, `No developers first seen in ${params.cohort}`);
+    return { detail };
+};
@@ -0,0 +1,11 @@
+import { error, redirect } from '@sveltejs/kit';
+import { shiftDay } from '$lib/format';
+import type { PageServerLoad } from './$types';
+
+// Bare /compare: the current window against the one just before it.
+export const load: PageServerLoad = async ({ parent }) => {
+    const { meta } = await parent();
+    const to = meta?.parquet_horizon;
+    if (!to) throw error(404, 'No extract loaded');
+    throw redirect(307, `/compare/${shiftDay(to, -28)}/${to}`);
+};
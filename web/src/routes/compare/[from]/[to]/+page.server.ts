@@ -0,0 +1,12 @@
+import { error, redirect } from '@sveltejs/kit';
+import { getCompare } from '$lib/server/queries';
+import type { PageServerLoad } from './$types';
+
+const DAY = /^\d{4}-\d{2}-\d{2}$/;
+
+export const load: PageServerLoad = async ({ params }) => {
+    const { from, to } = params;
+    if (!DAY.test(from) || !DAY.test(to)) throw error(404, 'Dates must be yyyy-mm-dd');
+    if (from > to) throw redirect(307, `/compare/${to}/${from}`);
+    return { cmp: await getCompare(from, to) };
+};
@@ -1,5 +1,6 @@
 import { error } from '@sveltejs/kit';
 import { getDayDetail } from '$lib/server/queries';
+import { loadExclusions } from '$lib/server/exclusions';
 import type { PageServerLoad } from './$types';
 
 export const load: PageServerLoad = async ({ params }) => {
@@ -12,5 +13,5 @@ export const load: PageServerLoad = async ({ params }) => {
             404,
             `${params.date} is outside the data range (${day.earliest}–${day.latest}).`,
         );
-    return { day };
+    return { day, rules: await loadExclusions() };
 };
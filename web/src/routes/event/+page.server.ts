@@ -0,0 +1,7 @@
+import { getEventImpacts, loadEvents } from '$lib/server/queries';
+import type { PageServerLoad } from './$types';
+
+export const load: PageServerLoad = async () => {
+    const events = await loadEvents();
+    return { events, impacts: await getEventImpacts(events) };
+};
@@ -0,0 +1,10 @@
+import { error } from '@sveltejs/kit';
+import { getEventDetail, loadEvents } from '$lib/server/queries';
+import { eventSlug } from '$lib/format';
+import type { PageServerLoad } from './$types';
+
+export const load: PageServerLoad = async ({ params }) => {
+    const event = (await loadEvents()).find((e) => eventSlug(e) === params.slug);
+    if (!event) throw error(404, `No event "${params.slug}" in events.json.`);
+    return { detail: await getEventDetail(event) };
+};
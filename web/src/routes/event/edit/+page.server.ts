@@ -0,0 +1,18 @@
+import { getMad } from '$lib/server/queries';
+import { loadEventsVersioned } from '$lib/server/events';
+import { adminEnabled } from '$lib/server/admin';
+import { KNOWN_PARTNERS } from '$lib/colors';
+import type { PageServerLoad } from './$types';
+
+export const load: PageServerLoad = async () => {
+    const [{ events, version }, mad] = await Promise.all([loadEventsVersioned(), getMad(365)]);
+    return {
+        events,
+        version,
+        partners: [...new Set([...KNOWN_PARTNERS, ...events.map((e) => e.partner)])],
+        writable: adminEnabled(),
+        // preview chart: the last year of MAD + daily actives (same call as the dashboard)
+        windowed: mad.windowed.map((w) => ({ day: w.day, value: w.all_devs })),
+        daily: mad.daily.map((d) => ({ day: d.day, value: d.daily_active_devs })),
+    };
+};
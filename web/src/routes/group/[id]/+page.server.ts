@@ -0,0 +1,9 @@
+import { error } from '@sveltejs/kit';
+import { getGroupDetail, loadEvents } from '$lib/server/queries';
+import type { PageServerLoad } from './$types';
+
+export const load: PageServerLoad = async ({ params }) => {
+    const rollup = await getGroupDetail(params.id);
+    if (!rollup) throw error(404, `No group "${params.id}" in groups.json.`);
+    return { rollup, events: await loadEvents() };
+};
@@ -0,0 +1,4 @@
+import { getDataAudit } from '$lib/server/queries';
+import type { PageServerLoad } from './$types';
+
+export const load: PageServerLoad = async () => ({ audit: await getDataAudit() });
@@ -0,0 +1,9 @@
+import { error } from '@sveltejs/kit';
+import { getOrgDetail, loadEvents } from '$lib/server/queries';
+import type { PageServerLoad } from './$types';
+
+export const load: PageServerLoad = async ({ params }) => {
+    const rollup = await getOrgDetail(params.owner);
+    if (!rollup) throw error(404, `No repos under "${params.owner}" in the Stellar extract.`);
+    return { rollup, events: await loadEvents() };
+};
@@ -0,0 +1,33 @@
+import { error, redirect } from '@sveltejs/kit';
+import { isDay } from '$lib/format';
+import { getRangeDetail, loadEvents, RANGE_MAX_DAYS } from '$lib/server/queries';
+import { loadExclusions } from '$lib/server/exclusions';
+import type { PageServerLoad } from './$types';
+
+export const load: PageServerLoad = async ({ params }) => {
+    const { start, end } = params;
+    if (!isDay(start) || !isDay(end)) throw error(404, 'Dates must be real yyyy-mm-dd days');
+    const span = (Date.parse(end) - Date.parse(start)) / 86400000 + 1;
+    if (span < 1) throw error(400, `The range ends (${end}) before it starts (${start}).`);
+    if (span > RANGE_MAX_DAYS)
+        throw error(400, `A range spans at most ${RANGE_MAX_DAYS} days; this one is ${span}.`);
+    const range = await getRangeDetail(start, end);
+    // Entirely outside the data is a 404; a range hanging off either end is trimmed to it,
+    // so an event still running past the horizon opens on the days there are.
+    if (end < range.earliest || start > range.latest)
+        throw error(
+            404,
+            `${start}–${end} is outside the data range (${range.earliest}–${range.latest}).`,
+        );
+    if (start < range.earliest || end > range.latest) {
+        const s = start < range.earliest ? range.earliest : start;
+        const e = end > range.latest ? range.latest : end;
+        throw redirect(307, `/range/${s}/${e}`);
+    }
+    return {
+        range,
+        rules: await loadExclusions(),
+        // events overlapping the range, to name it
+        events: (await loadEvents()).filter((e) => e.end >= start && e.start <= end),
+    };
+};
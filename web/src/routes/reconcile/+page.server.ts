@@ -0,0 +1,7 @@
+import { getReconciliation, loadEvents } from '$lib/server/queries';
+import type { PageServerLoad } from './$types';
+
+export const load: PageServerLoad = async ({ url }) => ({
+    recon: await getReconciliation(Number(url.searchParams.get('pct'))),
+    events: await loadEvents(),
+});
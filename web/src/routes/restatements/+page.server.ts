@@ -0,0 +1,6 @@
+import { getRestatements } from '$lib/server/queries';
+import type { PageServerLoad } from './$types';
+
+export const load: PageServerLoad = async ({ url }) => ({
+    r: await getRestatements(url.searchParams.get('against')),
+});